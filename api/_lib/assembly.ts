@@ -0,0 +1,79 @@
+// Server-side AssemblyAI access. The API key is read from ASSEMBLYAI_API_KEY;
+// ASSEMBLYAI_MOCK=1 swaps in canned diarized transcripts for offline work.
+
+import type { DiarizationProvider } from './providers';
+import { HttpError, isEnabled, requireEnv } from './http';
+import { mockAssembly } from './mockAssembly';
+import { getInputLanguage } from '../../services/inputLanguages';
+
+const ASSEMBLY_API_URL = 'https://api.assemblyai.com/v2';
+
+// Raw transcript status as returned by AssemblyAI (and mirrored by the mock)
+export interface TranscriptStatus {
+  id: string;
+  status: 'queued' | 'processing' | 'completed' | 'error';
+  text?: string;
+  utterances?: { speaker: string; text: string; start: number; end: number; confidence: number }[];
+  // Set when the language was given or detected
+  language_code?: string;
+  error?: string;
+}
+
+// Diarization plus AssemblyAI's realtime streaming, which the browser connects to directly
+export interface AssemblyProvider extends DiarizationProvider {
+  createRealtimeToken(): Promise<string>;
+}
+
+async function request(path: string, init: RequestInit): Promise<any> {
+  const response = await fetch(`${ASSEMBLY_API_URL}${path}`, {
+    ...init,
+    headers: { authorization: requireEnv('ASSEMBLYAI_API_KEY'), ...init.headers },
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    // Upstream outages become 502; client errors keep their status
+    const status = response.status >= 500 ? 502 : response.status;
+    throw new HttpError(status, data.error || `AssemblyAI request failed (${response.status})`);
+  }
+  return data;
+}
+
+const assemblyApi: AssemblyProvider = {
+  async createRealtimeToken() {
+    const data = await request('/realtime/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ expires_in: 3600 }),
+    });
+    return data.token;
+  },
+
+  async upload(audio) {
+    const data = await request('/upload', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: audio,
+    });
+    return data.upload_url;
+  },
+
+  async startTranscription(audioUrl, inputLanguage) {
+    // Auto-detect and mixed-language input use language detection
+    const { code } = getInputLanguage(inputLanguage);
+    const language = code ? { language_code: code } : { language_detection: true };
+    const data = await request('/transcript', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ audio_url: audioUrl, speaker_labels: true, ...language }),
+    });
+    return data.id;
+  },
+
+  async getTranscript(id) {
+    return request(`/transcript/${encodeURIComponent(id)}`, { method: 'GET' });
+  },
+};
+
+export const getAssemblyProvider = (): AssemblyProvider =>
+  isEnabled('ASSEMBLYAI_MOCK') ? mockAssembly : assemblyApi;
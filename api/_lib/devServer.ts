@@ -0,0 +1,34 @@
+// Vite plugin that serves the /api functions during `npm run dev`, so the
+// proxy routes work locally the same way they do when deployed to Vercel.
+
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { sendError, HttpError } from './http';
+
+const API_DIR = path.resolve(__dirname, '..');
+
+export function apiDevServer(): Plugin {
+  return {
+    name: 'kyra-api-dev-server',
+    configureServer(server) {
+      server.middlewares.use('/api', async (req, res, next) => {
+        const name = (req.url || '').split('?')[0].replace(/^\/+|\/+$/g, '');
+        const file = path.join(API_DIR, `${name}.ts`);
+
+        if (!/^[a-z0-9-]+$/.test(name) || !fs.existsSync(file)) {
+          return next();
+        }
+
+        try {
+          // Restore the full URL so handlers can read the query string
+          req.url = req.originalUrl || req.url;
+          const mod = await server.ssrLoadModule(file);
+          await mod.default(req, res);
+        } catch (error) {
+          sendError(res, error instanceof Error ? error : new HttpError(500, 'Handler failed'));
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,62 @@
+// Upstream model failures mapped to specific, user-facing errors. The `code`
+// tells the browser what went wrong and whether retrying can help.
+
+import type { ErrorCode } from '../../types';
+import { HttpError } from './http';
+
+const MESSAGES: Record<ErrorCode, string> = {
+  rate_limit: 'The model is receiving too many requests right now. Try again in a moment.',
+  quota: "The model's usage quota is used up. Try again later or raise the quota.",
+  auth: "The server's model API key was rejected. Check the key configured on the server.",
+  safety: "The model declined to process this content because of its safety filters.",
+  network: 'Could not reach the model service.',
+  unavailable: 'The model service is temporarily unavailable. Try again in a moment.',
+  truncated: 'The output hit the model\'s length limit before it finished.',
+};
+
+const STATUSES: Record<ErrorCode, number> = {
+  rate_limit: 429,
+  quota: 429,
+  auth: 502,
+  safety: 422,
+  network: 502,
+  unavailable: 503,
+  truncated: 502,
+};
+
+export const upstreamError = (code: ErrorCode, detail?: string) =>
+  new HttpError(STATUSES[code], detail ? `${MESSAGES[code]} (${detail})` : MESSAGES[code], code);
+
+// Classify a failed upstream response by its status and error text
+export function errorForStatus(status: number, message = ''): HttpError {
+  if (status === 429) {
+    // Per-minute limits clear on their own; daily or billing quotas don't
+    return upstreamError(/per ?day|billing|quota exceeded for quota metric.*day/i.test(message) ? 'quota' : 'rate_limit');
+  }
+  if (status === 401 || status === 403 || /api key|permission denied|unauthenticated/i.test(message)) {
+    return upstreamError('auth');
+  }
+  if (status >= 500) return upstreamError('unavailable');
+  return new HttpError(status, message || `Model request failed (${status})`);
+}
+
+// Node's system error code ("ECONNRESET"), if `value` carries one
+const systemCode = (value: unknown): string | undefined =>
+  typeof value === 'object' && value !== null && 'code' in value && typeof value.code === 'string' ? value.code : undefined;
+
+// Errors thrown by the model SDKs or fetch → HttpError
+export function toUpstreamError(error: unknown): HttpError {
+  if (error instanceof HttpError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  // @google/genai reports failures as "got status: 429 Too Many Requests. {...}"
+  const status = Number(message.match(/got status: (\d{3})/)?.[1]);
+  if (status) return errorForStatus(status, message);
+
+  // fetch failures, raw or wrapped by the SDK ("exception TypeError: fetch failed ...")
+  const code = systemCode(error instanceof Error ? error.cause : undefined) || systemCode(error);
+  if (error instanceof TypeError || /fetch failed/i.test(message) || /^(ECONN|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|UND_ERR)/.test(code || '')) {
+    return upstreamError('network', code);
+  }
+  return new HttpError(500, message || 'Model request failed');
+}
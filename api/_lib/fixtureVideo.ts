@@ -0,0 +1,38 @@
+// Local stand-in for the video site fetcher. Enabled with VIDEO_FIXTURES_DIR,
+// which holds files named after the video id (see parseVideoUrl):
+//   <id>.vtt or <id>.json (YouTube json3)  → captions, title from <id>.title
+//   <id>.mp3, <id>.m4a, ...                → audio, used when there are no captions
+
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+import { HttpError } from './http';
+import { AUDIO_MIME_TYPES, parseJson3, parseVideoUrl, parseWebVtt, type VideoFetcher } from './video';
+
+async function readFixture(dir: string, name: string): Promise<Buffer | null> {
+  try {
+    return await readFile(join(dir, name));
+  } catch {
+    return null;
+  }
+}
+
+export const fixtureVideoFetcher = (dir: string): VideoFetcher => ({
+  async getCaptions(url) {
+    const { id } = parseVideoUrl(url);
+    const title = (await readFixture(dir, `${id}.title`))?.toString('utf8').trim() || undefined;
+
+    const vtt = await readFixture(dir, `${id}.vtt`);
+    if (vtt) return { title, segments: parseWebVtt(vtt.toString('utf8')) };
+    const json = await readFixture(dir, `${id}.json`);
+    if (json) return { title, segments: parseJson3(JSON.parse(json.toString('utf8'))) };
+    return null;
+  },
+
+  async getAudio(url) {
+    const { id } = parseVideoUrl(url);
+    const files = await readdir(dir);
+    const extension = Object.keys(AUDIO_MIME_TYPES).find(ext => files.includes(`${id}.${ext}`));
+    if (!extension) throw new HttpError(404, `No fixture captions or audio for video ${id}`);
+    return { data: await readFile(join(dir, `${id}.${extension}`)), mimeType: AUDIO_MIME_TYPES[extension] };
+  },
+});
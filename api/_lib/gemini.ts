@@ -0,0 +1,146 @@
+// Gemini adapter. The API key is read from GEMINI_API_KEY and never leaves
+// the server; GEMINI_MOCK=1 swaps in the offline mock backend.
+
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Schema, Type } from "@google/genai";
+import type { TranscriptionProvider, TextProvider } from './providers';
+import { isEnabled, requireEnv } from './http';
+import { toUpstreamError, upstreamError } from './errors';
+import {
+  buildStructuredInstruction, buildSystemInstruction, buildTranscriptionPrompt, buildVerificationInput, buildVerificationInstruction,
+} from './prompts';
+import { parseStructuredOutput, parseVerification, STRUCTURED_SCHEMAS, VERIFICATION_SCHEMA } from './structured';
+import { mockStructured, mockTranscribe, mockTransformStream, mockVerify } from './mockGemini';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.0-flash';
+
+const SAFETY_REASONS = [
+  FinishReason.SAFETY, FinishReason.RECITATION, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII,
+];
+
+// Transcript plus the languages heard, so mixed-language input can be recorded
+const TRANSCRIPTION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    languages: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: 'ISO 639-1 codes of every language spoken, main language first',
+    },
+    text: { type: Type.STRING, description: 'The transcript; empty if there is no speech' },
+  },
+  required: ['languages', 'text'],
+};
+
+const getClient = () => new GoogleGenAI({ apiKey: requireEnv('GEMINI_API_KEY') });
+
+// Blocked and cut-off responses arrive as a finish reason rather than an exception
+function checkFinish(response: GenerateContentResponse) {
+  const blocked = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blocked) throw upstreamError('safety', blocked);
+  if (finishReason && SAFETY_REASONS.includes(finishReason)) throw upstreamError('safety', finishReason);
+  if (finishReason === FinishReason.MAX_TOKENS) throw upstreamError('truncated');
+}
+
+async function generate(request: Parameters<GoogleGenAI['models']['generateContent']>[0]) {
+  let response: GenerateContentResponse;
+  try {
+    response = await getClient().models.generateContent(request);
+  } catch (error) {
+    throw toUpstreamError(error);
+  }
+  checkFinish(response);
+  return response;
+}
+
+export const geminiProvider: TranscriptionProvider & TextProvider = {
+  async transcribe(base64Data, mimeType, model, inputLanguage) {
+    if (isEnabled('GEMINI_MOCK')) {
+      return mockTranscribe(base64Data, mimeType);
+    }
+
+    const response = await generate({
+      model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType, data: base64Data } },
+          { text: buildTranscriptionPrompt(inputLanguage) }
+        ]
+      },
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: TRANSCRIPTION_SCHEMA,
+      }
+    });
+
+    // Text is empty for silence
+    try {
+      const data = JSON.parse(response.text || '{}');
+      const languages = Array.isArray(data.languages) ? data.languages.filter((l: unknown) => typeof l === 'string') : [];
+      return { text: typeof data.text === 'string' ? data.text : '', languages };
+    } catch {
+      // Schema not honoured: the response is the transcript itself
+      return { text: response.text || '' };
+    }
+  },
+
+  async *transformStream(text, format, options, model, signal) {
+    if (isEnabled('GEMINI_MOCK')) {
+      yield* mockTransformStream(text, format, options, signal);
+      return;
+    }
+
+    const ai = getClient();
+    const systemInstruction = buildSystemInstruction(format, options);
+
+    try {
+      const result = await ai.models.generateContentStream({
+        model,
+        contents: { parts: [{ text }] },
+        config: { systemInstruction, abortSignal: signal }
+      });
+
+      for await (const chunk of result) {
+        yield chunk.text || "";
+        checkFinish(chunk);
+      }
+    } catch (error) {
+      throw toUpstreamError(error);
+    }
+  },
+
+  // JSON output constrained to the format's schema, then validated
+  async generateStructured(text, format, options, model) {
+    if (isEnabled('GEMINI_MOCK')) {
+      return mockStructured(text, format);
+    }
+
+    const response = await generate({
+      model,
+      contents: { parts: [{ text }] },
+      config: {
+        systemInstruction: buildStructuredInstruction(format, options),
+        responseMimeType: 'application/json',
+        responseSchema: STRUCTURED_SCHEMAS[format],
+      }
+    });
+    return parseStructuredOutput(format, response.text || '');
+  },
+
+  async verifyOutput(transcript, output, model) {
+    if (isEnabled('GEMINI_MOCK')) {
+      return mockVerify(transcript, output);
+    }
+
+    const response = await generate({
+      model,
+      contents: { parts: [{ text: buildVerificationInput(transcript, output) }] },
+      config: {
+        systemInstruction: buildVerificationInstruction(),
+        responseMimeType: 'application/json',
+        responseSchema: VERIFICATION_SCHEMA,
+      }
+    });
+    return parseVerification(response.text || '');
+  },
+};
@@ -0,0 +1,162 @@
+// Shared HTTP helpers for the /api serverless functions.
+// Handlers use plain Node request/response objects so they run unchanged on
+// Vercel and inside the Vite dev server (see vite.config.ts).
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { ErrorCode } from '../../types';
+
+export type ApiHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+// Error with an HTTP status; the message ends up in the `{ error }` body
+export class HttpError extends Error {
+  status: number;
+  code?: ErrorCode;
+
+  constructor(status: number, message: string, code?: ErrorCode) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export const MB = 1024 * 1024;
+
+// Longest transcript accepted by the text routes
+export const MAX_TEXT_LENGTH = 200_000;
+
+// Body size that fits `fields` texts of MAX_TEXT_LENGTH characters at up to
+// 4 UTF-8 bytes each, plus room for the rest of the request
+export const textBodyLimit = (fields: number) => fields * MAX_TEXT_LENGTH * 4 + MB;
+
+// Read the raw request body, rejecting anything larger than `limit` bytes
+export async function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+  const declared = Number(req.headers['content-length']);
+  if (declared > limit) {
+    throw new HttpError(413, `Request body exceeds ${Math.round(limit / MB)} MB limit`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) {
+      throw new HttpError(413, `Request body exceeds ${Math.round(limit / MB)} MB limit`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Read and parse a JSON object body
+export async function readJson<T = Record<string, unknown>>(req: IncomingMessage, limit = MB): Promise<T> {
+  const body = await readBody(req, limit);
+  try {
+    const parsed = JSON.parse(body.toString('utf8') || '{}');
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+    return parsed as T;
+  } catch {
+    throw new HttpError(400, 'Request body must be a JSON object');
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(data));
+}
+
+export function sendError(res: ServerResponse, error: unknown) {
+  const status = error instanceof HttpError ? error.status : 500;
+  const message = error instanceof Error ? error.message : 'Internal server error';
+  const code = error instanceof HttpError ? error.code : undefined;
+  if (!res.headersSent) {
+    sendJson(res, status, { error: message, code });
+  } else {
+    res.end();
+  }
+}
+
+// Wrap a handler with a method check and uniform error responses
+export function route(method: 'GET' | 'POST', handler: ApiHandler): ApiHandler {
+  return async (req, res) => {
+    try {
+      if (req.method !== method) {
+        res.setHeader('Allow', method);
+        throw new HttpError(405, `Method ${req.method} not allowed`);
+      }
+      await handler(req, res);
+    } catch (error) {
+      sendError(res, error);
+    }
+  };
+}
+
+// Validate the transcript text sent to the model routes
+export function requireText(text: unknown): string {
+  if (typeof text !== 'string' || !text.trim()) {
+    throw new HttpError(400, 'text is required');
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(413, `text exceeds ${MAX_TEXT_LENGTH} characters`);
+  }
+  return text;
+}
+
+// Read a single query-string parameter
+export function getQuery(req: IncomingMessage, name: string): string | null {
+  const url = new URL(req.url || '/', 'http://localhost');
+  return url.searchParams.get(name);
+}
+
+// Aborted when the client disconnects before the response is finished, so
+// upstream model calls stop instead of running (and billing) to the end
+export function closeSignal(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+// Stream chunks as newline-delimited JSON: `{ "text": ... }` per chunk, and
+// `{ "error": ..., "code": ... }` if the source fails after the response has started.
+// The first chunk is awaited before any headers go out, so configuration and
+// upstream errors at the start still get a proper status code.
+// Nothing more is written once the client has gone.
+export async function streamNdjson(res: ServerResponse, chunks: AsyncIterable<string>) {
+  const iterator = chunks[Symbol.asyncIterator]();
+  let next = await iterator.next();
+
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+  try {
+    while (!next.done && !res.destroyed) {
+      if (next.value) res.write(JSON.stringify({ text: next.value }) + '\n');
+      next = await iterator.next();
+    }
+    if (res.destroyed) await iterator.return?.();
+  } catch (error) {
+    if (res.destroyed) return;
+    const code: ErrorCode | undefined = error instanceof HttpError ? error.code : undefined;
+    const message = error instanceof Error ? error.message : 'Stream failed';
+    res.write(JSON.stringify({ error: message, code }) + '\n');
+  }
+  res.end();
+}
+
+// Read a required environment variable, failing with 503 when unset
+export function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new HttpError(503, `${name} is not configured on the server`);
+  }
+  return value;
+}
+
+export function isEnabled(name: string): boolean {
+  const value = process.env[name];
+  return value === '1' || value === 'true';
+}
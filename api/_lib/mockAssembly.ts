@@ -0,0 +1,54 @@
+// Offline stand-in for AssemblyAI. Transcript ids encode their creation time,
+// so status polling moves from "processing" to "completed" without any state.
+
+import type { AssemblyProvider, TranscriptStatus } from './assembly';
+import { HttpError } from './http';
+
+const PROCESSING_MS = 2000;
+
+const MOCK_UTTERANCES = [
+  { speaker: 'A', text: 'Good evening everyone. I call this meeting of the city council to order. Secretary, please take the roll.', start: 0, end: 6200, confidence: 0.96 },
+  { speaker: 'B', text: 'Council Member Lee, present. Council Member Patel, present. Councilman Work, present. We have a quorum.', start: 6400, end: 13100, confidence: 0.94 },
+  { speaker: 'A', text: 'Thank you. First item is the park maintenance budget for next quarter. Councilman Work, you had a proposal.', start: 13300, end: 19800, confidence: 0.95 },
+  { speaker: 'C', text: 'Yes, Madam Chair. I move that we approve forty thousand dollars for park maintenance, with the public works team reporting back by June 30th.', start: 20000, end: 28400, confidence: 0.92 },
+  { speaker: 'D', text: 'I second the motion.', start: 28600, end: 30100, confidence: 0.97 },
+  { speaker: 'A', text: 'All in favor? Any opposed? The motion passes four to zero.', start: 30300, end: 35900, confidence: 0.93 },
+  { speaker: 'B', text: 'I will circulate the approved budget to public works by Friday.', start: 36100, end: 40200, confidence: 0.95 },
+  { speaker: 'A', text: 'Thank you. With no further business, this meeting is adjourned.', start: 40400, end: 44800, confidence: 0.96 },
+];
+
+const mockId = () => `mock-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const mockAssembly: AssemblyProvider = {
+  async createRealtimeToken() {
+    return 'mock-realtime-token';
+  },
+
+  async upload() {
+    return `mock://upload/${mockId()}`;
+  },
+
+  async startTranscription() {
+    return mockId();
+  },
+
+  async getTranscript(id) {
+    const createdAt = Number(id.split('-')[1]);
+    if (!id.startsWith('mock-') || !createdAt) {
+      throw new HttpError(404, 'Transcript not found');
+    }
+
+    if (Date.now() - createdAt < PROCESSING_MS) {
+      return { id, status: 'processing' };
+    }
+
+    const result: TranscriptStatus = {
+      id,
+      status: 'completed',
+      text: MOCK_UTTERANCES.map(u => u.text).join(' '),
+      utterances: MOCK_UTTERANCES,
+      language_code: 'en',
+    };
+    return result;
+  },
+};
@@ -0,0 +1,102 @@
+// Offline stand-in for Gemini. Enabled with GEMINI_MOCK=1 so the app can be
+// run and exercised without a key or network access.
+
+import type { ActionItem, StructuredOutput, TranscriptionResult, TransformOptions, VerificationIssue } from '../../types';
+
+export const MOCK_TRANSCRIPT = "Hey team, just wanted to follow up on yesterday's meeting. We agreed to push the product launch to March 15th. Sarah will handle the marketing materials and John is taking care of the website updates. Let's sync again next Tuesday.";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const sentencesOf = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(Boolean);
+
+function mockOutput(text: string, format: string, options: TransformOptions): string {
+  const sentences = sentencesOf(text);
+  const first = sentences[0] || text.trim();
+  const tag = `[mock ${format.toLowerCase()} · ${options.tone || 'professional'} · ${options.language || 'en'}]`;
+
+  switch (format) {
+    case 'EMAIL':
+      return `Subject: ${first.slice(0, 60)}\n\nHi,\n\n${sentences.join(' ')}\n\nBest regards\n\n${tag}`;
+    case 'SUMMARY':
+      return `${sentences.slice(0, 2).join(' ')}\n\n${tag}`;
+    case 'SOCIAL':
+      return `✨ ${first.slice(0, 200)}\n\n${tag}`;
+    case 'ACTION_ITEMS':
+      return sentences.map((s, i) => `${i + 1}. ${s} - Owner: Unassigned - Due: TBD`).join('\n') + `\n\n${tag}`;
+    case 'MEETING':
+      return `MEETING NOTES\n\nPARTICIPANTS:\n- Speaker A\n\nAGENDA ITEMS DISCUSSED:\n${sentences.map(s => `- ${s}`).join('\n')}\n\nMOTIONS & VOTES:\nNone recorded\n\n${tag}`;
+    default:
+      return `${sentences.join(' ')}\n\n${tag}`;
+  }
+}
+
+export async function mockTranscribe(_base64Data: string, _mimeType: string): Promise<TranscriptionResult> {
+  await sleep(300);
+  return { text: MOCK_TRANSCRIPT, languages: ['en'] };
+}
+
+// Stream the canned output word by word, like the real model does
+export async function* mockTransformStream(text: string, format: string, options: TransformOptions, signal?: AbortSignal) {
+  let output = mockOutput(text, format, options);
+  // Continuing a cut-off run: send only what comes after the part already written
+  if (options.continueFrom && output.startsWith(options.continueFrom)) {
+    output = output.slice(options.continueFrom.length);
+  }
+  const words = output.split(/(?<=\s)/);
+  for (let i = 0; i < words.length && !signal?.aborted; i += 4) {
+    await sleep(40);
+    yield words.slice(i, i + 4).join('');
+  }
+}
+
+// Rough keyword extraction so structured views have realistic data offline
+export async function mockStructured(text: string, format: StructuredOutput['format']): Promise<StructuredOutput> {
+  await sleep(300);
+  const sentences = sentencesOf(text.replace(/^[^:\n]{1,40}:\s*/gm, ''));
+
+  const actionItems: ActionItem[] = sentences
+    .filter(s => /\b(will|need to|should|must|by)\b/i.test(s))
+    .map(s => ({
+      task: s,
+      owner: s.match(/^([A-Z][a-z]+) (?:will|needs to|should)/)?.[1] || null,
+      dueDate: s.match(/\b(?:by|on|next) ([A-Z][a-z]+(?: \d{1,2}(?:st|nd|rd|th)?)?)/)?.[1] || null,
+      status: 'open',
+    }));
+
+  if (format === 'ACTION_ITEMS') {
+    return { format, actionItems };
+  }
+
+  const speakers = [...new Set([...text.matchAll(/^([^:\n]{1,40}):/gm)].map(m => m[1].trim()))];
+  return {
+    format,
+    minutes: {
+      date: null,
+      meetingType: /council/i.test(text) ? 'Council' : null,
+      participants: speakers.map(name => ({ name, role: null })),
+      agendaItems: sentences.filter(s => /\b(item|agenda|budget|proposal)\b/i.test(s)),
+      motions: sentences
+        .filter(s => /\bmove (that|to)\b/i.test(s))
+        .map(s => ({
+          motion: s,
+          movedBy: null,
+          secondedBy: null,
+          votes: { aye: null, nay: null, abstain: null },
+          result: /motion (passes|carried)/i.test(text) ? 'passed' : 'unknown',
+        })),
+      decisions: sentences.filter(s => /\b(agreed|approved|passes|decided)\b/i.test(s)),
+      actionItems,
+      openItems: [],
+    },
+  };
+}
+
+// Flags promises ("will ...") in the output whose sentence isn't in the transcript
+export async function mockVerify(transcript: string, output: string): Promise<VerificationIssue[]> {
+  await sleep(300);
+  const heard = sentencesOf(transcript).map(s => s.toLowerCase());
+  return sentencesOf(output)
+    .filter(s => /\bwill\b/i.test(s) && !heard.some(h => h.includes(s.toLowerCase())))
+    .map(s => ({ text: s, kind: 'commitment', reason: 'The transcript does not contain this commitment.' }));
+}
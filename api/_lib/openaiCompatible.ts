@@ -0,0 +1,205 @@
+// OpenAI-compatible adapter: chat completions for text and /audio/transcriptions
+// for speech. OPENAI_BASE_URL points it at any server speaking that API
+// (OpenAI itself, or a local stand-in such as Ollama, llama.cpp, vLLM or a
+// Whisper server). OPENAI_API_KEY is optional, since local servers rarely need one.
+
+import { Schema, Type } from "@google/genai";
+import type { TranscriptionProvider, TextProvider } from './providers';
+import { HttpError } from './http';
+import { errorForStatus, upstreamError } from './errors';
+import { buildStructuredInstruction, buildSystemInstruction, buildVerificationInput, buildVerificationInstruction } from './prompts';
+import { getInputLanguage } from '../../services/inputLanguages';
+import { parseStructuredOutput, parseVerification, STRUCTURED_SCHEMAS, VERIFICATION_SCHEMA } from './structured';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+  'audio/flac': 'flac',
+};
+
+// verbose_json names the detected language in English ("english"); the rest of
+// the app uses ISO 639-1 codes. Whisper's Cantonese is reported as Chinese.
+const WHISPER_LANGUAGE_CODES: Record<string, string> = {
+  afrikaans: 'af', albanian: 'sq', amharic: 'am', arabic: 'ar', armenian: 'hy', assamese: 'as', azerbaijani: 'az',
+  bashkir: 'ba', basque: 'eu', belarusian: 'be', bengali: 'bn', bosnian: 'bs', breton: 'br', bulgarian: 'bg',
+  burmese: 'my', cantonese: 'zh', catalan: 'ca', chinese: 'zh', croatian: 'hr', czech: 'cs', danish: 'da',
+  dutch: 'nl', english: 'en', estonian: 'et', faroese: 'fo', finnish: 'fi', french: 'fr', galician: 'gl',
+  georgian: 'ka', german: 'de', greek: 'el', gujarati: 'gu', haitian: 'ht', 'haitian creole': 'ht', hausa: 'ha',
+  hebrew: 'he', hindi: 'hi', hungarian: 'hu', icelandic: 'is', indonesian: 'id', italian: 'it', japanese: 'ja',
+  javanese: 'jv', kannada: 'kn', kazakh: 'kk', khmer: 'km', korean: 'ko', lao: 'lo', latin: 'la', latvian: 'lv',
+  lingala: 'ln', lithuanian: 'lt', luxembourgish: 'lb', macedonian: 'mk', malagasy: 'mg', malay: 'ms',
+  malayalam: 'ml', maltese: 'mt', maori: 'mi', marathi: 'mr', mongolian: 'mn', myanmar: 'my', nepali: 'ne',
+  norwegian: 'no', nynorsk: 'nn', occitan: 'oc', pashto: 'ps', persian: 'fa', polish: 'pl', portuguese: 'pt',
+  punjabi: 'pa', romanian: 'ro', russian: 'ru', sanskrit: 'sa', serbian: 'sr', shona: 'sn', sindhi: 'sd',
+  sinhala: 'si', slovak: 'sk', slovenian: 'sl', somali: 'so', spanish: 'es', sundanese: 'su', swahili: 'sw',
+  swedish: 'sv', tagalog: 'tl', tajik: 'tg', tamil: 'ta', tatar: 'tt', telugu: 'te', thai: 'th', tibetan: 'bo',
+  turkish: 'tr', turkmen: 'tk', ukrainian: 'uk', urdu: 'ur', uzbek: 'uz', vietnamese: 'vi', welsh: 'cy',
+  yiddish: 'yi', yoruba: 'yo',
+};
+
+// Servers that already report a code are passed through; unknown names are dropped
+const toLanguageCode = (language: unknown): string | undefined => {
+  if (typeof language !== 'string') return undefined;
+  const name = language.trim().toLowerCase();
+  return /^[a-z]{2}$/.test(name) ? name : WHISPER_LANGUAGE_CODES[name];
+};
+
+const baseUrl = () => (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+const authHeaders = (): Record<string, string> =>
+  process.env.OPENAI_API_KEY ? { authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {};
+
+async function request(path: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl()}${path}`, {
+      ...init,
+      headers: { ...authHeaders(), ...init.headers },
+    });
+  } catch {
+    throw upstreamError('network', baseUrl());
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw errorForStatus(response.status, data.error?.message || data.error || '');
+  }
+  return response;
+}
+
+const chatBody = (model: string, system: string, text: string) => ({
+  model,
+  messages: [
+    { role: 'system', content: system },
+    { role: 'user', content: text },
+  ],
+});
+
+// Gemini response schema → JSON Schema for `response_format`
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const types: Record<string, string> = {
+    [Type.STRING]: 'string',
+    [Type.INTEGER]: 'integer',
+    [Type.NUMBER]: 'number',
+    [Type.BOOLEAN]: 'boolean',
+    [Type.ARRAY]: 'array',
+    [Type.OBJECT]: 'object',
+  };
+  const type = types[schema.type || Type.STRING];
+  const result: Record<string, unknown> = { type: schema.nullable ? [type, 'null'] : type };
+
+  if (schema.enum) result.enum = schema.nullable ? [...schema.enum, null] : schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    result.required = schema.required || [];
+    result.additionalProperties = false;
+  }
+  return result;
+}
+
+// Server-sent events: `data: {...}` lines, ending with `data: [DONE]`
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+
+    for (const line of lines) {
+      const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+      if (!data) continue;
+      if (data === '[DONE]') return;
+      yield JSON.parse(data);
+    }
+
+    if (done) return;
+  }
+}
+
+export const openaiCompatibleProvider: TranscriptionProvider & TextProvider = {
+  async transcribe(base64Data, mimeType, model, inputLanguage) {
+    const extension = AUDIO_EXTENSIONS[mimeType.split(';')[0]] || 'webm';
+    const form = new FormData();
+    form.append('file', new Blob([Buffer.from(base64Data, 'base64')], { type: mimeType }), `audio.${extension}`);
+    form.append('model', model);
+    // verbose_json reports the detected language; mixed speech is left to detection
+    form.append('response_format', 'verbose_json');
+    const { code } = getInputLanguage(inputLanguage);
+    if (code) form.append('language', code);
+
+    const response = await request('/audio/transcriptions', { method: 'POST', body: form });
+    const data = await response.json();
+    const language = toLanguageCode(data.language);
+    return { text: data.text || '', languages: language ? [language] : undefined };
+  },
+
+  async *transformStream(text, format, options, model, signal) {
+    const response = await request('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...chatBody(model, buildSystemInstruction(format, options), text), stream: true }),
+      signal,
+    });
+    if (!response.body) {
+      throw new HttpError(502, 'Model server returned an empty response');
+    }
+
+    for await (const event of readEvents(response.body)) {
+      if (event.error) {
+        throw new HttpError(502, event.error.message || 'Model server stream failed');
+      }
+      yield event.choices?.[0]?.delta?.content || "";
+      const finishReason = event.choices?.[0]?.finish_reason;
+      if (finishReason === 'length') throw upstreamError('truncated');
+      if (finishReason === 'content_filter') throw upstreamError('safety');
+    }
+  },
+
+  async generateStructured(text, format, options, model) {
+    const response = await request('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...chatBody(model, buildStructuredInstruction(format, options), text),
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: format.toLowerCase(), schema: toJsonSchema(STRUCTURED_SCHEMAS[format]) },
+        },
+      }),
+    });
+    const data = await response.json();
+    return parseStructuredOutput(format, data.choices?.[0]?.message?.content || '');
+  },
+
+  async verifyOutput(transcript, output, model) {
+    const response = await request('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        ...chatBody(model, buildVerificationInstruction(), buildVerificationInput(transcript, output)),
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'verification', schema: toJsonSchema(VERIFICATION_SCHEMA) },
+        },
+      }),
+    });
+    const data = await response.json();
+    return parseVerification(data.choices?.[0]?.message?.content || '');
+  },
+};
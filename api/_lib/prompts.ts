@@ -0,0 +1,100 @@
+// System prompts built from output templates, shared by every model backend
+
+import { SummaryLength } from '../../types';
+import type { PromptTemplate, TransformOptions } from '../../types';
+import { getBuiltInTemplate } from '../../services/builtInTemplates';
+import { getInputLanguage } from '../../services/inputLanguages';
+
+// Tone, language and style-guide sentences common to every prompt
+function buildStyleRules(options: TransformOptions): string {
+  // Tone instructions
+  const toneMap: Record<string, string> = {
+    professional: "Use a professional, business-appropriate tone.",
+    casual: "Use a casual, relaxed conversational tone.",
+    friendly: "Use a warm, friendly, and approachable tone."
+  };
+  const toneInstruction = toneMap[options.tone || 'professional'] || toneMap.professional;
+  
+  // Language instructions
+  const languageMap: Record<string, string> = {
+    en: "Write the output in English.",
+    zh: "Write the output in Simplified Chinese (中文).",
+    ms: "Write the output in Bahasa Melayu.",
+    ta: "Write the output in Tamil (தமிழ்)."
+  };
+  const languageInstruction = languageMap[options.language || 'en'] || languageMap.en;
+  
+  // Style guide instruction
+  const styleInstruction = options.styleGuide 
+    ? `\n\nADDITIONAL STYLE GUIDE - Follow these custom writing style rules:\n${options.styleGuide}\n\n`
+    : '';
+
+  return `${toneInstruction} ${languageInstruction}${styleInstruction}`;
+}
+
+// Speaker labels from diarization are more reliable than anything the model can infer
+const DIARIZATION_NOTE = `SPEAKER LABELS ARE PROVIDED: Each line starts with a speaker label ("Speaker A:", "Speaker B:", or a name) detected from the audio itself. These labels are reliable - attribute every statement, motion, second and vote to the labelled speaker. Never merge or split labelled speakers. Replace a label with a real name or title only when the transcript makes clear who that speaker is (e.g. Speaker C is addressed as "Councilman Work").`;
+
+// The request's template, else the built-in one for the format. CUSTOM without
+// a template keeps the older one-line `customPrompt`.
+function resolveTemplate(format: string, options: TransformOptions): PromptTemplate {
+  return options.template || getBuiltInTemplate(format) || {
+    systemPrompt: (options.customPrompt || "Polish the following text.") + " Output plain text only.",
+    lengthRules: {},
+    exampleOutput: '',
+  };
+}
+
+export function buildSystemInstruction(format: string, options: TransformOptions): string {
+  const template = resolveTemplate(format, options);
+  const lengthRule = template.lengthRules[options.summaryLength as SummaryLength] ?? template.lengthRules[SummaryLength.LONG];
+
+  const parts = [
+    `You are an expert content shaper. ${buildStyleRules(options)} IMPORTANT: Output plain text only. Never use markdown formatting like **, ##, *, or any other markdown syntax.`,
+    template.systemPrompt,
+  ];
+  if (lengthRule) parts.push(lengthRule);
+  if (options.diarized) parts.push(DIARIZATION_NOTE);
+  if (template.exampleOutput.trim()) {
+    parts.push(`EXAMPLE OUTPUT - follow this layout and style, but use only content from the input:\n${template.exampleOutput.trim()}`);
+  }
+  if (options.continueFrom) {
+    parts.push(`CONTINUE AN INTERRUPTED OUTPUT: The output below was cut off. Reply with only the text that comes next, starting exactly where it stops (mid-word or mid-sentence if need be). Do not repeat any of it.\n\nOUTPUT SO FAR:\n${options.continueFrom}`);
+  }
+  return parts.join('\n\n');
+}
+
+// Structured (JSON) extraction; the response schema itself is enforced by the model config
+export function buildStructuredInstruction(format: string, options: TransformOptions): string {
+  const diarizationNote = options.diarized
+    ? 'Lines start with speaker labels detected from the audio; they are reliable, so attribute statements, motions, seconds and votes to the labelled speaker, using a real name only when the transcript makes it clear. '
+    : '';
+  const rules = `You are an expert meeting analyst extracting structured data from a transcript. ${buildStyleRules(options)} Write text fields in the requested language. ${diarizationNote}Only record what the transcript actually says: use null for any owner, date, name or vote count that is not stated, and never estimate or invent vote counts. `;
+
+  switch (format) {
+    case 'ACTION_ITEMS':
+      return rules + 'Return every action item, task and to-do. Set status to "done" only if the transcript says it is already complete, "in_progress" if someone says it is underway, otherwise "open". Use an ISO date (YYYY-MM-DD) for dueDate only when an exact date is given; otherwise keep the phrase used (e.g. "next Tuesday").';
+    case 'MEETING':
+      return rules + 'Return the meeting minutes: participants with their role, agenda items in order, every motion with mover, seconder, aye/nay/abstain counts and result, key decisions, action items, and open items for future meetings. A voice vote with no counts keeps the counts null and records only the result.';
+    default:
+      throw new Error(`No structured output for format ${format}`);
+  }
+}
+
+// Verification pass: the model lists what an output claims that its transcript doesn't say
+export function buildVerificationInstruction(): string {
+  return `You are a meticulous fact checker. The input has a TRANSCRIPT and an OUTPUT written from it. List every claim in the OUTPUT that the TRANSCRIPT does not support: names of people or organisations, dates, days and times, numbers and amounts, and commitments (who will do what, by when, or what was agreed or decided). In meeting minutes, vote counts, movers, seconders and motion results must match the transcript exactly; a count the transcript does not state is always unsupported. Rewording, summarizing and translation are fine - flag only facts that are missing from the transcript or contradict it. For each one, quote the shortest span of the OUTPUT that contains it, copied character for character, give its kind, and say in one short sentence what the transcript says instead or that it says nothing about it. Return an empty list when everything is supported.`;
+}
+
+export const buildVerificationInput = (transcript: string, output: string) =>
+  `TRANSCRIPT:\n${transcript}\n\nOUTPUT:\n${output}`;
+
+// Word-for-word transcription, told which language(s) to expect. Speech that
+// switches language mid-sentence is written as spoken, never translated.
+export function buildTranscriptionPrompt(inputLanguage?: string): string {
+  const { prompt } = getInputLanguage(inputLanguage);
+  const languageRule = prompt
+    ? `The speech is in: ${prompt}`
+    : 'Detect the language or languages spoken. Speakers may switch languages mid-sentence (for example Singlish, or English mixed with Mandarin or Malay): write each word in the language and script it was spoken in, and never translate.';
+  return `Please provide a highly accurate word-for-word transcript of this audio. No summary, just text. ${languageRule} If there is no speech, return an empty transcript.`;
+}
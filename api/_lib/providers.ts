@@ -0,0 +1,87 @@
+// Model provider selection. Each task reads its own setting, so transcription,
+// text transformation and structured extraction can run on different models:
+//
+//   TRANSCRIPTION_MODEL=gemini:gemini-2.0-flash
+//   TRANSFORM_MODEL=openai:llama3.1:8b        (OPENAI_BASE_URL=http://localhost:11434/v1)
+//   STRUCTURED_MODEL=gemini:gemini-2.0-flash  (defaults to TRANSFORM_MODEL)
+//   DIARIZATION_PROVIDER=assemblyai
+//
+// Values are "<provider>:<model>"; a bare model name means Gemini.
+
+import type { StructuredOutput, TranscriptionResult, TransformOptions, VerificationIssue } from '../../types';
+import type { TranscriptStatus } from './assembly';
+import { getAssemblyProvider } from './assembly';
+import { geminiProvider, DEFAULT_GEMINI_MODEL } from './gemini';
+import { HttpError } from './http';
+import { openaiCompatibleProvider } from './openaiCompatible';
+
+export interface TranscriptionProvider {
+  // `inputLanguage` is an INPUT_LANGUAGES id; absent or "auto" means detect it
+  transcribe(base64Data: string, mimeType: string, model: string, inputLanguage?: string): Promise<TranscriptionResult>;
+}
+
+export interface TextProvider {
+  // `signal` aborts the upstream request when the client stops listening
+  transformStream(text: string, format: string, options: TransformOptions, model: string, signal?: AbortSignal): AsyncIterable<string>;
+  generateStructured(
+    text: string,
+    format: StructuredOutput['format'],
+    options: TransformOptions,
+    model: string
+  ): Promise<StructuredOutput>;
+  // Claims in `output` that `transcript` doesn't support
+  verifyOutput(transcript: string, output: string, model: string): Promise<VerificationIssue[]>;
+}
+
+// Batch transcription with speaker labels: upload, start a job, poll it
+export interface DiarizationProvider {
+  upload(audio: Buffer, contentType?: string): Promise<string>;
+  startTranscription(audioUrl: string, inputLanguage?: string): Promise<string>;
+  getTranscript(id: string): Promise<TranscriptStatus>;
+}
+
+type ModelProvider = TranscriptionProvider & TextProvider;
+
+const MODEL_PROVIDERS: Record<string, ModelProvider> = {
+  gemini: geminiProvider,
+  openai: openaiCompatibleProvider,
+};
+
+const DIARIZATION_PROVIDERS: Record<string, () => DiarizationProvider> = {
+  assemblyai: getAssemblyProvider,
+};
+
+export interface ModelChoice<T> {
+  provider: T;
+  model: string;
+}
+
+// "openai:llama3.1:8b" → openai / "llama3.1:8b"; model names may contain colons
+function resolveModel(setting: string): ModelChoice<ModelProvider> {
+  const value = process.env[setting] || `gemini:${DEFAULT_GEMINI_MODEL}`;
+  const separator = value.indexOf(':');
+  const name = separator < 0 ? 'gemini' : value.slice(0, separator);
+  const model = separator < 0 ? value : value.slice(separator + 1);
+
+  const provider = MODEL_PROVIDERS[name];
+  if (!provider || !model) {
+    throw new HttpError(500, `${setting} must look like "<provider>:<model>" with provider ${Object.keys(MODEL_PROVIDERS).join(' or ')}`);
+  }
+  return { provider, model };
+}
+
+export const getTranscriptionModel = (): ModelChoice<TranscriptionProvider> => resolveModel('TRANSCRIPTION_MODEL');
+
+export const getTransformModel = (): ModelChoice<TextProvider> => resolveModel('TRANSFORM_MODEL');
+
+export const getStructuredModel = (): ModelChoice<TextProvider> =>
+  resolveModel(process.env.STRUCTURED_MODEL ? 'STRUCTURED_MODEL' : 'TRANSFORM_MODEL');
+
+export function getDiarizationProvider(): DiarizationProvider {
+  const name = process.env.DIARIZATION_PROVIDER || 'assemblyai';
+  const factory = DIARIZATION_PROVIDERS[name];
+  if (!factory) {
+    throw new HttpError(500, `DIARIZATION_PROVIDER must be one of ${Object.keys(DIARIZATION_PROVIDERS).join(', ')}`);
+  }
+  return factory();
+}
@@ -0,0 +1,172 @@
+// Response schemas for structured output. The same schema is sent to the model
+// as its responseSchema and used to check what comes back, so a malformed
+// reply fails loudly instead of reaching the UI.
+
+import { Schema, Type } from "@google/genai";
+import type { StructuredOutput, VerificationIssue } from '../../types';
+import { HttpError } from './http';
+
+const nullableString: Schema = { type: Type.STRING, nullable: true };
+const nullableCount: Schema = { type: Type.INTEGER, nullable: true };
+
+const actionItemSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    task: { type: Type.STRING },
+    owner: nullableString,
+    dueDate: nullableString,
+    status: { type: Type.STRING, enum: ['open', 'in_progress', 'done'] },
+  },
+  required: ['task', 'owner', 'dueDate', 'status'],
+};
+
+const motionSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    motion: { type: Type.STRING },
+    movedBy: nullableString,
+    secondedBy: nullableString,
+    votes: {
+      type: Type.OBJECT,
+      properties: { aye: nullableCount, nay: nullableCount, abstain: nullableCount },
+      required: ['aye', 'nay', 'abstain'],
+    },
+    result: { type: Type.STRING, enum: ['passed', 'failed', 'tabled', 'unknown'] },
+  },
+  required: ['motion', 'movedBy', 'secondedBy', 'votes', 'result'],
+};
+
+const stringList: Schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+export const STRUCTURED_SCHEMAS: Record<StructuredOutput['format'], Schema> = {
+  ACTION_ITEMS: {
+    type: Type.OBJECT,
+    properties: {
+      actionItems: { type: Type.ARRAY, items: actionItemSchema },
+    },
+    required: ['actionItems'],
+  },
+  MEETING: {
+    type: Type.OBJECT,
+    properties: {
+      minutes: {
+        type: Type.OBJECT,
+        properties: {
+          date: nullableString,
+          meetingType: nullableString,
+          participants: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: { name: { type: Type.STRING }, role: nullableString },
+              required: ['name', 'role'],
+            },
+          },
+          agendaItems: stringList,
+          motions: { type: Type.ARRAY, items: motionSchema },
+          decisions: stringList,
+          actionItems: { type: Type.ARRAY, items: actionItemSchema },
+          openItems: stringList,
+        },
+        required: ['date', 'meetingType', 'participants', 'agendaItems', 'motions', 'decisions', 'actionItems', 'openItems'],
+      },
+    },
+    required: ['minutes'],
+  },
+};
+
+// Verification pass: claims in an output that the transcript doesn't support
+export const VERIFICATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    issues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          kind: { type: Type.STRING, enum: ['name', 'date', 'number', 'commitment'] },
+          reason: { type: Type.STRING },
+        },
+        required: ['text', 'kind', 'reason'],
+      },
+    },
+  },
+  required: ['issues'],
+};
+
+export const isStructuredFormat = (format: string): format is StructuredOutput['format'] =>
+  format in STRUCTURED_SCHEMAS;
+
+// Returns the path of the first mismatch, or null when `value` fits `schema`
+export function findSchemaError(schema: Schema, value: unknown, path = '$'): string | null {
+  if (value === null || value === undefined) {
+    return schema.nullable ? null : `${path} is missing`;
+  }
+
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value !== 'string') return `${path} must be a string`;
+      if (schema.enum && !schema.enum.includes(value)) return `${path} must be one of ${schema.enum.join(', ')}`;
+      return null;
+    case Type.INTEGER:
+      return Number.isInteger(value) && (value as number) >= 0 ? null : `${path} must be a non-negative integer`;
+    case Type.NUMBER:
+      return typeof value === 'number' ? null : `${path} must be a number`;
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? null : `${path} must be a boolean`;
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return `${path} must be an array`;
+      for (let i = 0; i < value.length; i++) {
+        const error = findSchemaError(schema.items!, value[i], `${path}[${i}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return `${path} must be an object`;
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (!(key in record) && !schema.properties?.[key]?.nullable) return `${path}.${key} is missing`;
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+        const error = findSchemaError(propertySchema, record[key], `${path}.${key}`);
+        if (error) return error;
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Parse model JSON and check it against the format's schema
+export function parseStructuredOutput(format: StructuredOutput['format'], json: string): StructuredOutput {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new HttpError(502, 'Model returned invalid JSON');
+  }
+
+  const error = findSchemaError(STRUCTURED_SCHEMAS[format], data);
+  if (error) {
+    throw new HttpError(502, `Model output failed schema check: ${error}`);
+  }
+  return { format, ...(data as object) } as StructuredOutput;
+}
+
+export function parseVerification(json: string): VerificationIssue[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new HttpError(502, 'Model returned invalid JSON');
+  }
+
+  const error = findSchemaError(VERIFICATION_SCHEMA, data);
+  if (error) {
+    throw new HttpError(502, `Model output failed schema check: ${error}`);
+  }
+  return (data as { issues: VerificationIssue[] }).issues.filter(issue => issue.text.trim());
+}
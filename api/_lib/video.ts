@@ -0,0 +1,243 @@
+// Video transcripts. Published captions are used when the site has them;
+// otherwise the audio track is extracted with yt-dlp (YTDLP_PATH, default
+// "yt-dlp" on the PATH) and sent through speech-to-text by the route.
+// yt-dlp only runs its site extractors, never its generic page scraper, and
+// only once the host resolves to public addresses. yt-dlp resolves the host
+// again itself, so a name that changes its answer in between (DNS rebinding)
+// is only partly kept out, by the known-sites restriction.
+// VIDEO_FIXTURES_DIR swaps in a fetcher that reads local files instead.
+
+import { execFile } from 'child_process';
+import { lookup } from 'dns/promises';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { BlockList, isIP } from 'net';
+import { join } from 'path';
+import { promisify } from 'util';
+import type { TranscriptSegment } from '../../types';
+import { HttpError, MB } from './http';
+import { fixtureVideoFetcher } from './fixtureVideo';
+import { MAX_AUDIO_FILE_SIZE } from '../../services/audioFile';
+
+// Audio goes to the transcription model inline as base64, which adds a third
+// to the model's 20 MB request cap, so this is the same limit uploads have.
+// Longer audio isn't split here: the browser chunks uploaded files instead.
+export const MAX_VIDEO_AUDIO_SIZE = MAX_AUDIO_FILE_SIZE;
+
+export const AUDIO_TOO_LARGE_MESSAGE =
+  `The video has no captions and its audio is over the ${MAX_VIDEO_AUDIO_SIZE / MB} MB limit. Download the audio and upload it instead: long uploads are transcribed in chunks`;
+
+const DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface VideoCaptions {
+  title?: string;
+  language?: string;
+  segments: TranscriptSegment[];
+}
+
+export interface VideoAudio {
+  data: Buffer;
+  mimeType: string;
+}
+
+export interface VideoFetcher {
+  // null when the video has no captions
+  getCaptions(url: string): Promise<VideoCaptions | null>;
+  getAudio(url: string): Promise<VideoAudio>;
+}
+
+export const AUDIO_MIME_TYPES: Record<string, string> = {
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  webm: 'audio/webm',
+  opus: 'audio/ogg',
+  ogg: 'audio/ogg',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+};
+
+// ============================================
+// URLS
+// ============================================
+
+const YOUTUBE_ID = /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/|live\/)|youtu\.be\/)([\w-]{11})/;
+const VIMEO_ID = /vimeo\.com\/(?:video\/)?(\d+)/;
+
+export type VideoSite = 'youtube' | 'vimeo' | 'other';
+
+// Site and a file-name-safe id ("dQw4w9WgXcQ", "76979871", "example_com_talk")
+export function parseVideoUrl(url: string): { site: VideoSite; id: string } {
+  const youtube = url.match(YOUTUBE_ID);
+  if (youtube) return { site: 'youtube', id: youtube[1] };
+  const vimeo = url.match(VIMEO_ID);
+  if (vimeo) return { site: 'vimeo', id: vimeo[1] };
+  const { hostname, pathname } = new URL(url);
+  return { site: 'other', id: `${hostname}${pathname}`.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '') };
+}
+
+// Loopback, private, link-local and other non-public ranges. IPv4-mapped IPv6
+// addresses ("::ffff:7f00:1") are checked against the IPv4 ranges.
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+const isPrivateAddress = (address: string) =>
+  PRIVATE_RANGES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// Public http(s) URLs only, judged by the URL itself. Names that resolve to
+// internal addresses are caught by assertPublicHost before anything downloads.
+export function isPublicVideoUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (isIP(host)) return !isPrivateAddress(host);
+  return !(host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal'));
+}
+
+// Every address the URL's host resolves to must be public
+async function assertPublicHost(url: string): Promise<void> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = await lookup(host, { all: true }).catch(() => {
+    throw new HttpError(400, `Could not resolve ${host}`);
+  });
+  if (addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new HttpError(400, 'url must be a public http(s) video link');
+  }
+}
+
+// ============================================
+// CAPTION FORMATS
+// ============================================
+
+// "00:01:02.500" or "01:02.500" (WebVTT), commas accepted for SRT
+const parseCueTime = (value: string): number => {
+  const parts = value.trim().replace(',', '.').split(':').map(Number);
+  const [h, m, s] = parts.length === 3 ? parts : [0, ...parts];
+  return Math.round(((h * 60 + m) * 60 + s) * 1000);
+};
+
+const stripCueMarkup = (text: string) =>
+  text.replace(/<[^>]+>/g, '').replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ');
+
+export function parseWebVtt(vtt: string): TranscriptSegment[] {
+  const segments: TranscriptSegment[] = [];
+  for (const block of vtt.replace(/\r\n/g, '\n').split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timing = lines.findIndex(line => line.includes('-->'));
+    if (timing < 0) continue;
+    const [start, end] = lines[timing].split('-->').map(part => part.trim().split(/\s+/)[0]);
+    const text = stripCueMarkup(lines.slice(timing + 1).join(' ')).replace(/\s+/g, ' ').trim();
+    if (text) segments.push({ start: parseCueTime(start), end: parseCueTime(end), text });
+  }
+  return segments;
+}
+
+// YouTube's json3 caption format
+export function parseJson3(data: any): TranscriptSegment[] {
+  return (data?.events || [])
+    .filter((event: any) => event.segs)
+    .map((event: any) => ({
+      start: event.tStartMs || 0,
+      end: (event.tStartMs || 0) + (event.dDurationMs || 0),
+      text: event.segs.map((seg: any) => seg.utf8 || '').join('').replace(/\s+/g, ' ').trim(),
+    }))
+    .filter((segment: TranscriptSegment) => segment.text);
+}
+
+// ============================================
+// SITE FETCHER
+// ============================================
+
+async function fetchOk(url: string): Promise<Response> {
+  const response = await fetch(url, { headers: { 'accept-language': 'en' } });
+  if (!response.ok) throw new Error(`${url} returned ${response.status}`);
+  return response;
+}
+
+async function youtubeCaptions(id: string): Promise<VideoCaptions | null> {
+  const html = await (await fetchOk(`https://www.youtube.com/watch?v=${id}&hl=en`)).text();
+  const match = html.match(/ytInitialPlayerResponse\s*=\s*(\{.+?\});\s*(?:var\s|<\/script>)/s);
+  if (!match) return null;
+
+  const player = JSON.parse(match[1]);
+  const tracks: any[] = player?.captions?.playerCaptionsTracklistRenderer?.captionTracks || [];
+  // Prefer captions someone wrote over automatic speech recognition
+  const track = tracks.find(t => t.kind !== 'asr') || tracks[0];
+  if (!track?.baseUrl) return null;
+
+  const data = await (await fetchOk(`${track.baseUrl}&fmt=json3`)).json();
+  return { title: player.videoDetails?.title, language: track.languageCode, segments: parseJson3(data) };
+}
+
+async function vimeoCaptions(id: string): Promise<VideoCaptions | null> {
+  const config = await (await fetchOk(`https://player.vimeo.com/video/${id}/config`)).json();
+  const tracks: any[] = config?.request?.text_tracks || [];
+  const track = tracks.find(t => t.kind === 'captions') || tracks[0];
+  if (!track?.url) return null;
+
+  const vtt = await (await fetchOk(new URL(track.url, 'https://player.vimeo.com').toString())).text();
+  return { title: config.video?.title, language: track.lang, segments: parseWebVtt(vtt) };
+}
+
+async function downloadAudio(url: string): Promise<VideoAudio> {
+  await assertPublicHost(url);
+  const maxSize = `${MAX_VIDEO_AUDIO_SIZE / MB}M`;
+  const dir = await mkdtemp(join(tmpdir(), 'kyra-video-'));
+  try {
+    await promisify(execFile)(process.env.YTDLP_PATH || 'yt-dlp', [
+      '--no-playlist', '--quiet', '--no-warnings',
+      // Known video sites only: the generic extractor follows any page and its redirects
+      '--use-extractors', 'default,-generic',
+      '-f', `bestaudio[filesize<${maxSize}]/bestaudio[filesize_approx<${maxSize}]/worstaudio`,
+      // Even the smallest format may be too large: stop rather than download it all
+      '--max-filesize', maxSize,
+      '-o', join(dir, 'audio.%(ext)s'),
+      url,
+    ], { timeout: DOWNLOAD_TIMEOUT_MS }).catch((error: any) => {
+      if (error.code === 'ENOENT') {
+        throw new HttpError(501, 'This video has no captions, and audio extraction needs yt-dlp installed on the server');
+      }
+      const reason = String(error.stderr || '').trim().split('\n').pop() || error.message;
+      throw new HttpError(502, `Could not download the video's audio: ${reason}`);
+    });
+
+    // yt-dlp leaves nothing (or a partial file) when --max-filesize stopped it
+    const file = (await readdir(dir)).find(name => !name.endsWith('.part'));
+    if (!file) throw new HttpError(413, AUDIO_TOO_LARGE_MESSAGE);
+    const extension = file.split('.').pop()!.toLowerCase();
+    return { data: await readFile(join(dir, file)), mimeType: AUDIO_MIME_TYPES[extension] || 'audio/webm' };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+const siteFetcher: VideoFetcher = {
+  async getCaptions(url) {
+    const { site, id } = parseVideoUrl(url);
+    try {
+      if (site === 'youtube') return await youtubeCaptions(id);
+      if (site === 'vimeo') return await vimeoCaptions(id);
+    } catch {
+      // Page layout changes or blocked requests: fall back to the audio track
+    }
+    return null;
+  },
+
+  getAudio: downloadAudio,
+};
+
+export const getVideoFetcher = (): VideoFetcher =>
+  process.env.VIDEO_FIXTURES_DIR ? fixtureVideoFetcher(process.env.VIDEO_FIXTURES_DIR) : siteFetcher;
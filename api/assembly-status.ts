@@ -0,0 +1,22 @@
+// GET /api/assembly-status?id=... → { status, text, utterances, language_code, error }
+
+import { HttpError, getQuery, route, sendJson } from './_lib/http';
+import { getDiarizationProvider } from './_lib/providers';
+
+export default route('GET', async (req, res) => {
+  const id = getQuery(req, 'id');
+
+  if (!id || !/^[\w-]{1,100}$/.test(id)) {
+    throw new HttpError(400, 'A valid transcript id is required');
+  }
+
+  const transcript = await getDiarizationProvider().getTranscript(id);
+  sendJson(res, 200, {
+    id: transcript.id,
+    status: transcript.status,
+    text: transcript.text,
+    utterances: transcript.utterances,
+    language_code: transcript.language_code,
+    error: transcript.error,
+  });
+});
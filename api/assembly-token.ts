@@ -0,0 +1,9 @@
+// POST /api/assembly-token → { token } for the realtime streaming WebSocket
+
+import { route, sendJson } from './_lib/http';
+import { getAssemblyProvider } from './_lib/assembly';
+
+export default route('POST', async (_req, res) => {
+  const token = await getAssemblyProvider().createRealtimeToken();
+  sendJson(res, 200, { token });
+});
@@ -0,0 +1,23 @@
+// POST /api/assembly-transcribe
+// Body: { audio_url, inputLanguage? } → { id } of a diarized transcription job
+
+import { HttpError, isEnabled, readJson, route, sendJson } from './_lib/http';
+import { getDiarizationProvider } from './_lib/providers';
+import { AUTO_DETECT, isInputLanguage } from '../services/inputLanguages';
+
+export default route('POST', async (req, res) => {
+  const { audio_url, inputLanguage } = await readJson<{ audio_url?: unknown; inputLanguage?: unknown }>(req);
+
+  // mock:// URLs come from the offline mock's uploads and mean nothing to AssemblyAI
+  const scheme = isEnabled('ASSEMBLYAI_MOCK') ? /^(https|mock):\/\// : /^https:\/\//;
+  if (typeof audio_url !== 'string' || !scheme.test(audio_url)) {
+    throw new HttpError(400, 'audio_url must be an upload URL');
+  }
+  const language = inputLanguage ?? AUTO_DETECT;
+  if (!isInputLanguage(language)) {
+    throw new HttpError(400, 'inputLanguage is not a supported language');
+  }
+
+  const id = await getDiarizationProvider().startTranscription(audio_url, language);
+  sendJson(res, 200, { id });
+});
@@ -0,0 +1,29 @@
+// POST /api/assembly-upload
+// Body: raw audio bytes → { upload_url }
+
+import { HttpError, MB, readBody, route, sendJson } from './_lib/http';
+import { getDiarizationProvider } from './_lib/providers';
+
+const MAX_UPLOAD_SIZE = 100 * MB;
+
+// Blobs without a type arrive with no Content-Type or as octet-stream
+const isAcceptedType = (contentType?: string) =>
+  !contentType ||
+  contentType.startsWith('audio/') ||
+  contentType.startsWith('video/') ||
+  contentType.startsWith('application/octet-stream');
+
+export default route('POST', async (req, res) => {
+  const contentType = req.headers['content-type'];
+  if (!isAcceptedType(contentType)) {
+    throw new HttpError(415, `Unsupported content type: ${contentType}`);
+  }
+
+  const audio = await readBody(req, MAX_UPLOAD_SIZE);
+  if (audio.length === 0) {
+    throw new HttpError(400, 'Audio body is empty');
+  }
+
+  const uploadUrl = await getDiarizationProvider().upload(audio, contentType);
+  sendJson(res, 200, { upload_url: uploadUrl });
+});
@@ -0,0 +1,24 @@
+// POST /api/structure
+// Body: { text, format: 'ACTION_ITEMS' | 'MEETING', options } → schema-checked JSON
+
+import type { TransformOptions } from '../types';
+import { HttpError, MB, readJson, requireText, route, sendJson } from './_lib/http';
+import { getStructuredModel } from './_lib/providers';
+import { isStructuredFormat } from './_lib/structured';
+
+interface StructureRequest {
+  text?: unknown;
+  format?: unknown;
+  options?: TransformOptions;
+}
+
+export default route('POST', async (req, res) => {
+  const { text, format, options } = await readJson<StructureRequest>(req, MB);
+
+  if (typeof format !== 'string' || !isStructuredFormat(format)) {
+    throw new HttpError(400, 'format must be ACTION_ITEMS or MEETING');
+  }
+
+  const { provider, model } = getStructuredModel();
+  sendJson(res, 200, await provider.generateStructured(requireText(text), format, options || {}, model));
+});
@@ -0,0 +1,33 @@
+// POST /api/transcribe
+// Body: { data: base64 audio, mimeType, inputLanguage? } → { text, languages? }
+
+import { HttpError, MB, readJson, route, sendJson } from './_lib/http';
+import { getTranscriptionModel } from './_lib/providers';
+import { AUTO_DETECT, isInputLanguage } from '../services/inputLanguages';
+
+// Gemini caps inline request payloads at 20 MB
+const MAX_BODY_SIZE = 20 * MB;
+
+interface TranscribeRequest {
+  data?: unknown;
+  mimeType?: unknown;
+  inputLanguage?: unknown;
+}
+
+export default route('POST', async (req, res) => {
+  const { data, mimeType, inputLanguage } = await readJson<TranscribeRequest>(req, MAX_BODY_SIZE);
+
+  if (typeof data !== 'string' || !data) {
+    throw new HttpError(400, 'data is required');
+  }
+  if (typeof mimeType !== 'string' || !mimeType.startsWith('audio/')) {
+    throw new HttpError(400, 'mimeType must be an audio type');
+  }
+  const language = inputLanguage ?? AUTO_DETECT;
+  if (!isInputLanguage(language)) {
+    throw new HttpError(400, 'inputLanguage is not a supported language');
+  }
+
+  const { provider, model } = getTranscriptionModel();
+  sendJson(res, 200, await provider.transcribe(data, mimeType, model, language));
+});
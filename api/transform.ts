@@ -0,0 +1,54 @@
+// POST /api/transform
+// Body: { text, format, options } → NDJSON stream of `{ text }` chunks
+
+import { OutputFormat, type PromptTemplate, type TransformOptions } from '../types';
+import { getBuiltInTemplate } from '../services/builtInTemplates';
+import { closeSignal, HttpError, MAX_TEXT_LENGTH, readJson, requireText, route, streamNdjson, textBodyLimit } from './_lib/http';
+import { getTransformModel } from './_lib/providers';
+
+interface TransformRequest {
+  text?: unknown;
+  format?: unknown;
+  options?: TransformOptions;
+}
+
+const MAX_TEMPLATE_FIELD = 20_000;
+
+// Templates are user-edited in the browser, so check their shape before prompting with them
+function checkTemplate(template: PromptTemplate) {
+  const isField = (value: unknown) => typeof value === 'string' && value.length <= MAX_TEMPLATE_FIELD;
+  const rules = template.lengthRules;
+
+  if (!isField(template.systemPrompt) || !template.systemPrompt.trim()) {
+    throw new HttpError(400, 'template.systemPrompt is required');
+  }
+  if (!isField(template.exampleOutput)) {
+    throw new HttpError(400, 'template.exampleOutput must be a string');
+  }
+  if (typeof rules !== 'object' || rules === null || !Object.values(rules).every(isField)) {
+    throw new HttpError(400, 'template.lengthRules must map lengths to strings');
+  }
+}
+
+export default route('POST', async (req, res) => {
+  // Room for `text` and `continueFrom` both at full length, template included
+  const { text, format, options } = await readJson<TransformRequest>(req, textBodyLimit(2));
+
+  if (typeof format !== 'string' || !format) {
+    throw new HttpError(400, 'format is required');
+  }
+  // Formats without a built-in template (such as the retired BEAUTIFY) would
+  // otherwise fall through to the generic CUSTOM prompt without saying so
+  if (format !== OutputFormat.CUSTOM && !getBuiltInTemplate(format)) {
+    throw new HttpError(400, `Unknown format "${format}"; send CUSTOM with a template instead`);
+  }
+  if (options?.template) {
+    checkTemplate(options.template);
+  }
+  if (options?.continueFrom !== undefined && (typeof options.continueFrom !== 'string' || options.continueFrom.length > MAX_TEXT_LENGTH)) {
+    throw new HttpError(400, 'options.continueFrom must be a string');
+  }
+
+  const { provider, model } = getTransformModel();
+  await streamNdjson(res, provider.transformStream(requireText(text), format, options || {}, model, closeSignal(res)));
+});
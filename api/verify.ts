@@ -0,0 +1,30 @@
+// POST /api/verify
+// Body: { transcript, output } → { issues }
+// Names, dates and numbers the transcript never mentions are found by text
+// matching; the model adds unsupported commitments and anything the matching
+// can't judge, such as facts in other languages or contradicted vote counts.
+
+import { HttpError, MAX_TEXT_LENGTH, readJson, route, sendJson, textBodyLimit } from './_lib/http';
+import { getStructuredModel } from './_lib/providers';
+import { findUnsupportedClaims, mergeIssues } from '../services/outputVerification';
+
+interface VerifyRequest {
+  transcript?: unknown;
+  output?: unknown;
+}
+
+export default route('POST', async (req, res) => {
+  const { transcript, output } = await readJson<VerifyRequest>(req, textBodyLimit(2));
+
+  if (typeof transcript !== 'string' || !transcript.trim() || typeof output !== 'string' || !output.trim()) {
+    throw new HttpError(400, 'transcript and output are required');
+  }
+  // Each is held to the limit /api/transform has, so every output it produces can be checked
+  if (transcript.length > MAX_TEXT_LENGTH || output.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(413, `transcript and output must each be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+
+  const { provider, model } = getStructuredModel();
+  const issues = mergeIssues(findUnsupportedClaims(transcript, output), await provider.verifyOutput(transcript, output, model));
+  sendJson(res, 200, { issues });
+});
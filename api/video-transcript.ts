@@ -0,0 +1,44 @@
+// POST /api/video-transcript
+// Body: { url } → { title?, source: 'captions' | 'audio', language?, text, segments? }
+// Captions keep their timings in `segments`; audio transcripts are plain text.
+
+import type { VideoTranscript } from '../types';
+import { HttpError, readJson, route, sendJson } from './_lib/http';
+import { getTranscriptionModel } from './_lib/providers';
+import { AUDIO_TOO_LARGE_MESSAGE, getVideoFetcher, isPublicVideoUrl, MAX_VIDEO_AUDIO_SIZE } from './_lib/video';
+
+interface VideoTranscriptRequest {
+  url?: unknown;
+}
+
+export default route('POST', async (req, res) => {
+  const { url } = await readJson<VideoTranscriptRequest>(req);
+
+  if (typeof url !== 'string' || !isPublicVideoUrl(url.trim())) {
+    throw new HttpError(400, 'url must be a public http(s) video link');
+  }
+
+  const fetcher = getVideoFetcher();
+  const captions = await fetcher.getCaptions(url.trim());
+  if (captions?.segments.length) {
+    const result: VideoTranscript = {
+      title: captions.title,
+      source: 'captions',
+      language: captions.language,
+      text: captions.segments.map(s => s.text).join(' '),
+      segments: captions.segments,
+    };
+    sendJson(res, 200, result);
+    return;
+  }
+
+  const audio = await fetcher.getAudio(url.trim());
+  if (audio.data.length > MAX_VIDEO_AUDIO_SIZE) {
+    throw new HttpError(413, AUDIO_TOO_LARGE_MESSAGE);
+  }
+
+  const { provider, model } = getTranscriptionModel();
+  const { text, languages } = await provider.transcribe(audio.data.toString('base64'), audio.mimeType, model);
+  const result: VideoTranscript = { title: captions?.title, source: 'audio', language: languages?.[0], text };
+  sendJson(res, 200, result);
+});
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Expand, Languages, Loader2, Minimize2, Redo2, Undo2, Wand2, X } from 'lucide-react';
+import { TransformOptions, VerificationIssue } from '../types';
+import { rewriteSelection, RewriteAction, spliceText, TextRange } from '../services/selectionRewrite';
+import { issueRanges } from '../services/outputVerification';
+
+// Typing within this long of the last keystroke is one undo step
+const TYPING_PAUSE_MS = 1000;
+const MAX_UNDO = 100;
+
+const TONES = [
+  { key: 'professional', label: 'Professional' },
+  { key: 'casual', label: 'Casual' },
+  { key: 'friendly', label: 'Friendly' },
+];
+
+interface EditableOutputProps {
+  value: string;
+  onChange: (text: string) => void;
+  // Locked while the output is still streaming in
+  readOnly?: boolean;
+  // Tone, output language and style guide the selection rewrites follow
+  options: TransformOptions;
+  languages: { code: string; name: string }[];
+  // Claims the transcript doesn't support, highlighted where they appear
+  issues?: VerificationIssue[];
+  onError: (message: string) => void;
+}
+
+// Editable output with undo/redo and a toolbar that rewrites the selection
+export const EditableOutput: React.FC<EditableOutputProps> = ({ value, onChange, readOnly, options, languages, issues = [], onError }) => {
+  const [past, setPast] = useState<string[]>([]);
+  const [future, setFuture] = useState<string[]>([]);
+  const [selection, setSelection] = useState<TextRange>({ start: 0, end: 0 });
+  const [menu, setMenu] = useState<'tone' | 'translate' | null>(null);
+  const [busy, setBusy] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  // Last text this editor produced; anything else arriving in `value` is a new output
+  const emittedRef = useRef(value);
+  const lastTypedRef = useRef(0);
+  const rewriteRef = useRef<AbortController | null>(null);
+
+  // A regenerated or streamed output starts a fresh history
+  useEffect(() => {
+    if (value === emittedRef.current) return;
+    emittedRef.current = value;
+    setPast([]);
+    setFuture([]);
+  }, [value]);
+
+  useEffect(() => () => rewriteRef.current?.abort(), []);
+
+  const emit = (text: string) => {
+    emittedRef.current = text;
+    onChange(text);
+  };
+
+  const commit = (text: string, typing = false) => {
+    const now = Date.now();
+    if (!typing || now - lastTypedRef.current > TYPING_PAUSE_MS) {
+      setPast(prev => [...prev.slice(1 - MAX_UNDO), value]);
+    }
+    lastTypedRef.current = typing ? now : 0;
+    setFuture([]);
+    emit(text);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setPast(prev => prev.slice(0, -1));
+    setFuture(prev => [value, ...prev]);
+    lastTypedRef.current = 0;
+    emit(past[past.length - 1]);
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setFuture(prev => prev.slice(1));
+    setPast(prev => [...prev, value]);
+    lastTypedRef.current = 0;
+    emit(future[0]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' || key === 'y') {
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) redo(); else undo();
+    }
+  };
+
+  const updateSelection = () => {
+    const el = textareaRef.current;
+    if (el) setSelection({ start: el.selectionStart, end: el.selectionEnd });
+  };
+
+  const runAction = async (action: RewriteAction, override: TransformOptions = {}) => {
+    const range = selection;
+    if (range.start === range.end || busy) return;
+    setMenu(null);
+    setBusy(true);
+    const controller = new AbortController();
+    rewriteRef.current = controller;
+    try {
+      const replacement = await rewriteSelection(value, range, action, { ...options, ...override }, controller.signal);
+      commit(spliceText(value, range, replacement));
+      // Leave the new text selected so it can be rewritten again
+      const next = { start: range.start, end: range.start + replacement.length };
+      setSelection(next);
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(next.start, next.end);
+      });
+    } catch (err) {
+      if (!controller.signal.aborted) onError(err instanceof Error ? err.message : 'Could not rewrite the selection.');
+    } finally {
+      rewriteRef.current = null;
+      setBusy(false);
+    }
+  };
+
+  // Highlights sit in a backdrop laid out exactly like the textarea, behind its transparent background
+  const ranges = issueRanges(value, issues);
+  const highlighted: React.ReactNode[] = [];
+  let position = 0;
+  ranges.forEach(({ start, end }, i) => {
+    highlighted.push(value.slice(position, start));
+    highlighted.push(<mark key={i} className="bg-red-500/30 text-transparent rounded-sm">{value.slice(start, end)}</mark>);
+    position = end;
+  });
+  // A trailing newline needs content after it to take up a line, as it does in the textarea
+  highlighted.push(`${value.slice(position)} `);
+
+  const syncScroll = () => {
+    if (backdropRef.current && textareaRef.current) backdropRef.current.scrollTop = textareaRef.current.scrollTop;
+  };
+
+  const hasSelection = selection.start !== selection.end && !readOnly;
+  const actionClass = 'px-2 py-1 rounded-md flex items-center gap-1 hover:bg-white/10 disabled:opacity-30';
+
+  return (
+    <div className="flex flex-col h-full gap-2">
+      <div className="flex items-center gap-1 text-[11px] text-neutral-300">
+        {busy ? (
+          <>
+            <Loader2 className="w-3.5 h-3.5 animate-spin accent-text" />
+            <span className="text-neutral-500 mr-1">Rewriting selection...</span>
+            <button onClick={() => rewriteRef.current?.abort()} className={actionClass}>
+              <X className="w-3 h-3" /> Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button onClick={() => runAction('rewrite')} disabled={!hasSelection} className={actionClass}>
+              <Wand2 className="w-3 h-3" /> Rewrite
+            </button>
+            <button onClick={() => runAction('shorten')} disabled={!hasSelection} className={actionClass}>
+              <Minimize2 className="w-3 h-3" /> Shorten
+            </button>
+            <button onClick={() => runAction('expand')} disabled={!hasSelection} className={actionClass}>
+              <Expand className="w-3 h-3" /> Expand
+            </button>
+            <div className="relative">
+              <button onClick={() => setMenu(menu === 'tone' ? null : 'tone')} disabled={!hasSelection} className={actionClass}>
+                Tone <ChevronDown className="w-3 h-3" />
+              </button>
+              {menu === 'tone' && hasSelection && (
+                <div className="absolute z-20 mt-1 w-36 glass-card rounded-xl p-1 text-xs shadow-lg">
+                  {TONES.map(t => (
+                    <button
+                      key={t.key}
+                      onClick={() => runAction('tone', { tone: t.key })}
+                      className="w-full text-left px-3 py-2 rounded-lg hover:bg-white/10"
+                    >
+                      {t.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="relative">
+              <button onClick={() => setMenu(menu === 'translate' ? null : 'translate')} disabled={!hasSelection} className={actionClass}>
+                <Languages className="w-3 h-3" /> Translate <ChevronDown className="w-3 h-3" />
+              </button>
+              {menu === 'translate' && hasSelection && (
+                <div className="absolute z-20 mt-1 w-36 glass-card rounded-xl p-1 text-xs shadow-lg">
+                  {languages.map(lang => (
+                    <button
+                      key={lang.code}
+                      onClick={() => runAction('translate', { language: lang.code })}
+                      className="w-full text-left px-3 py-2 rounded-lg hover:bg-white/10"
+                    >
+                      {lang.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={undo} disabled={past.length === 0 || busy || readOnly} title="Undo (Ctrl+Z)" className={actionClass}>
+            <Undo2 className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={redo} disabled={future.length === 0 || busy || readOnly} title="Redo (Ctrl+Shift+Z)" className={actionClass}>
+            <Redo2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+      <div className="relative flex-1 min-h-[220px]">
+        {ranges.length > 0 && (
+          <div
+            ref={backdropRef}
+            aria-hidden
+            className="absolute inset-0 overflow-hidden whitespace-pre-wrap break-words text-sm font-mono text-transparent pointer-events-none"
+          >
+            {highlighted}
+          </div>
+        )}
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={e => commit(e.target.value, true)}
+          onSelect={updateSelection}
+          onKeyDown={handleKeyDown}
+          onScroll={syncScroll}
+          readOnly={readOnly || busy}
+          spellCheck
+          className="absolute inset-0 w-full h-full bg-transparent text-sm font-mono resize-none focus:outline-none"
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useMemo, useState } from 'react';
+import { X, Search, Trash2, History } from 'lucide-react';
+import { AppSession, OutputTemplate } from '../types';
+import { filterSessions } from '../services/historyService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DATE_RANGES = [
+  { key: 'all', label: 'Any time', days: 0 },
+  { key: 'today', label: 'Today', days: 1 },
+  { key: 'week', label: '7 days', days: 7 },
+  { key: 'month', label: '30 days', days: 30 },
+];
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+interface HistoryDrawerProps {
+  sessions: AppSession[];
+  // For format names in the filter and on each session
+  templates: OutputTemplate[];
+  activeSessionId: string | null;
+  onOpen: (session: AppSession) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ sessions, templates, activeSessionId, onOpen, onDelete, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [format, setFormat] = useState('');
+  const [range, setRange] = useState('all');
+
+  const filtered = useMemo(() => {
+    const days = DATE_RANGES.find(r => r.key === range)?.days || 0;
+    // "Today" starts at local midnight; longer ranges count back from now
+    const since = days === 1
+      ? new Date().setHours(0, 0, 0, 0)
+      : days ? Date.now() - days * DAY_MS : undefined;
+    return filterSessions(sessions, { query, format, since });
+  }, [sessions, query, format, range]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 z-50 flex justify-end" onClick={onClose}>
+      <div className="glass-card w-full max-w-md h-full flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-white/5">
+          <h2 className="font-bold flex items-center gap-2">
+            <History className="w-4 h-4 accent-text" /> History
+          </h2>
+          <button onClick={onClose}><X className="w-5 h-5" /></button>
+        </div>
+
+        {/* Filters */}
+        <div className="p-4 space-y-2 border-b border-white/5 text-xs">
+          <div className="flex items-center gap-2 bg-black/30 border border-white/10 rounded-lg px-3 py-2">
+            <Search className="w-3.5 h-3.5 text-neutral-500" />
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search transcripts and outputs..."
+              className="flex-1 bg-transparent text-sm focus:outline-none"
+            />
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={format}
+              onChange={e => setFormat(e.target.value)}
+              className="flex-1 bg-black/50 border border-white/10 rounded-lg px-2 py-1.5 focus:outline-none cursor-pointer"
+            >
+              <option value="">All formats</option>
+              {templates.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+            <select
+              value={range}
+              onChange={e => setRange(e.target.value)}
+              className="flex-1 bg-black/50 border border-white/10 rounded-lg px-2 py-1.5 focus:outline-none cursor-pointer"
+            >
+              {DATE_RANGES.map(r => (
+                <option key={r.key} value={r.key}>{r.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Sessions */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {filtered.length === 0 ? (
+            <p className="text-sm text-neutral-500 text-center mt-8">
+              {sessions.length === 0 ? 'No saved sessions yet.' : 'No sessions match these filters.'}
+            </p>
+          ) : filtered.map(session => (
+            <div
+              key={session.id}
+              onClick={() => onOpen(session)}
+              className={`group rounded-xl p-3 cursor-pointer border transition-all ${
+                session.id === activeSessionId ? 'border-white/30 bg-white/5' : 'border-white/5 hover:bg-white/5'
+              }`}
+            >
+              <div className="flex items-center gap-2 mb-1 text-[10px] text-neutral-500">
+                <span>{formatDate(session.updatedAt || session.timestamp)}</span>
+                {session.format && (
+                  <span className="px-1.5 py-0.5 rounded bg-white/10 text-neutral-300 font-medium uppercase">
+                    {templates.find(t => t.id === session.format)?.name || session.format}
+                  </span>
+                )}
+                <button
+                  onClick={e => {
+                    e.stopPropagation();
+                    onDelete(session.id);
+                  }}
+                  title="Delete session"
+                  className="ml-auto opacity-0 group-hover:opacity-100 hover:text-red-400 transition-all"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <p className="text-sm text-neutral-300 line-clamp-2">
+                {session.transcript || <span className="italic text-neutral-500">Audio only</span>}
+              </p>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { alignSections, ParallelColumn } from '../services/parallelOutput';
+
+export interface ParallelOutputColumn extends ParallelColumn {
+  pending: boolean;
+}
+
+interface ParallelOutputViewProps {
+  columns: ParallelOutputColumn[];
+  onRetry: (language: string) => void;
+}
+
+// One column per language; each row holds the same block in every language
+export const ParallelOutputView: React.FC<ParallelOutputViewProps> = ({ columns, onRetry }) => {
+  const rows = alignSections(columns.map(c => c.text));
+  const grid = { gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` };
+
+  return (
+    <div className="text-sm">
+      <div className="grid gap-4 pb-2 mb-2 border-b border-white/10 sticky top-0 bg-black/60 backdrop-blur" style={grid}>
+        {columns.map(column => (
+          <div key={column.language} className="flex items-center gap-2 text-[10px] font-bold text-neutral-500 uppercase tracking-wider">
+            {column.label}
+            {column.pending && <Loader2 className="w-3 h-3 animate-spin" />}
+            {!column.pending && !column.text && (
+              <button onClick={() => onRetry(column.language)} className="flex items-center gap-1 accent-text normal-case">
+                <RotateCcw className="w-3 h-3" /> Retry
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+      {rows.map((row, i) => (
+        <div key={i} className="grid gap-4 py-2 border-b border-white/5 last:border-0" style={grid}>
+          {row.map((block, j) => (
+            <p key={columns[j].language} className="whitespace-pre-wrap">{block}</p>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
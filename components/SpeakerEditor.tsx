@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { GitMerge, Play } from 'lucide-react';
+import {
+  DiarizedTranscript, getSpeakerLabel, renameSpeaker, mergeSpeakers,
+  reassignUtterance, updateUtteranceText, nextSpeakerLabel
+} from '../services/assemblyService';
+
+// Utterances below this confidence are flagged for review
+const LOW_CONFIDENCE = 0.8;
+
+const SPEAKER_COLORS = [
+  'bg-yellow-400', 'bg-sky-400', 'bg-emerald-400', 'bg-rose-400',
+  'bg-violet-400', 'bg-orange-400', 'bg-teal-400', 'bg-pink-400',
+];
+
+const NEW_SPEAKER = '__new__';
+
+export const formatTimestamp = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const mins = Math.floor((totalSeconds % 3600) / 60);
+  const secs = totalSeconds % 60;
+  const mmss = `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+interface SpeakerEditorProps {
+  transcript: DiarizedTranscript;
+  onChange: (transcript: DiarizedTranscript) => void;
+  // When audio is available: jump playback to an utterance, and highlight the one playing
+  onSeek?: (ms: number) => void;
+  playbackMs?: number;
+}
+
+export const SpeakerEditor: React.FC<SpeakerEditorProps> = ({ transcript, onChange, onSeek, playbackMs }) => {
+  const [mergeFrom, setMergeFrom] = useState<string | null>(null);
+
+  const colorOf = (speaker: string) => {
+    const index = transcript.speakers.indexOf(speaker);
+    return SPEAKER_COLORS[(index < 0 ? 0 : index) % SPEAKER_COLORS.length];
+  };
+
+  const handleReassign = (index: number, value: string) => {
+    const speaker = value === NEW_SPEAKER ? nextSpeakerLabel(transcript) : value;
+    onChange(reassignUtterance(transcript, index, speaker));
+  };
+
+  return (
+    <div className="w-full space-y-3">
+      {/* Speakers */}
+      <div className="space-y-2">
+        {transcript.speakers.map(speaker => (
+          <div key={speaker} className="flex items-center gap-2 text-xs">
+            <span className={`w-2.5 h-2.5 rounded-full shrink-0 ${colorOf(speaker)}`} />
+            <input
+              // Re-mount when the name changes elsewhere (e.g. after a merge)
+              key={transcript.speakerNames?.[speaker] || speaker}
+              defaultValue={transcript.speakerNames?.[speaker] || ''}
+              placeholder={`Speaker ${speaker}`}
+              onBlur={e => onChange(renameSpeaker(transcript, speaker, e.target.value))}
+              onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+              className="flex-1 min-w-0 bg-black/30 border border-white/10 rounded-md px-2 py-1 focus:outline-none focus:border-white/30"
+            />
+            <span className="text-neutral-500 w-8 text-right">
+              {transcript.utterances.filter(u => u.speaker === speaker).length}×
+            </span>
+            {mergeFrom === speaker ? (
+              <select
+                autoFocus
+                defaultValue=""
+                onChange={e => {
+                  onChange(mergeSpeakers(transcript, speaker, e.target.value));
+                  setMergeFrom(null);
+                }}
+                onBlur={() => setMergeFrom(null)}
+                className="bg-black/50 border border-white/10 rounded-md px-2 py-1 focus:outline-none"
+              >
+                <option value="" disabled>Merge into…</option>
+                {transcript.speakers.filter(s => s !== speaker).map(s => (
+                  <option key={s} value={s}>{getSpeakerLabel(transcript, s)}</option>
+                ))}
+              </select>
+            ) : (
+              <button
+                onClick={() => setMergeFrom(speaker)}
+                disabled={transcript.speakers.length < 2}
+                title="Merge into another speaker"
+                className="p-1.5 glass-card rounded-md hover:bg-white/10 disabled:opacity-30"
+              >
+                <GitMerge className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Utterances */}
+      <div className="max-h-64 overflow-y-auto space-y-2 pr-1">
+        {transcript.utterances.map((u, index) => (
+          <div
+            key={index}
+            className={`bg-black/30 border rounded-xl p-3 transition-colors ${
+              playbackMs !== undefined && playbackMs >= u.start && playbackMs < u.end ? 'border-white/40' : 'border-white/10'
+            }`}
+          >
+            <div className="flex items-center gap-2 mb-1 text-[11px]">
+              <span className={`w-2 h-2 rounded-full ${colorOf(u.speaker)}`} />
+              <select
+                value={u.speaker}
+                onChange={e => handleReassign(index, e.target.value)}
+                className="bg-transparent font-medium focus:outline-none cursor-pointer"
+              >
+                {transcript.speakers.map(s => (
+                  <option key={s} value={s}>{getSpeakerLabel(transcript, s)}</option>
+                ))}
+                <option value={NEW_SPEAKER}>+ New speaker</option>
+              </select>
+              {onSeek ? (
+                <button
+                  onClick={() => onSeek(u.start)}
+                  title="Play from here"
+                  className="flex items-center gap-1 text-neutral-500 hover:text-white"
+                >
+                  <Play className="w-3 h-3" />
+                  {formatTimestamp(u.start)} – {formatTimestamp(u.end)}
+                </button>
+              ) : (
+                <span className="text-neutral-500">
+                  {formatTimestamp(u.start)} – {formatTimestamp(u.end)}
+                </span>
+              )}
+              {u.confidence < LOW_CONFIDENCE && (
+                <span className="ml-auto px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-300" title={`Confidence ${Math.round(u.confidence * 100)}%`}>
+                  Check
+                </span>
+              )}
+            </div>
+            <textarea
+              value={u.text}
+              onChange={e => onChange(updateUtteranceText(transcript, index, e.target.value))}
+              rows={Math.max(1, Math.ceil(u.text.length / 60))}
+              className="w-full bg-transparent text-sm resize-none focus:outline-none"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
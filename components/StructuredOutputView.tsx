@@ -0,0 +1,151 @@
+import React from 'react';
+import { CheckSquare, Square } from 'lucide-react';
+import { ActionItem, ActionItemStatus, MeetingMinutes, StructuredOutput } from '../types';
+import { formatStatus, formatVotes, getActionItems, setActionItemStatus } from '../services/structuredOutput';
+
+const RESULT_STYLES: Record<string, string> = {
+  passed: 'bg-emerald-500/20 text-emerald-300',
+  failed: 'bg-red-500/20 text-red-300',
+  tabled: 'bg-yellow-500/20 text-yellow-300',
+  unknown: 'bg-white/10 text-neutral-400',
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h4 className="text-[10px] font-bold text-neutral-500 uppercase tracking-wider mt-4 mb-2 first:mt-0">{children}</h4>
+);
+
+const BulletList: React.FC<{ items: string[] }> = ({ items }) =>
+  items.length === 0 ? (
+    <p className="text-xs text-neutral-500">None recorded</p>
+  ) : (
+    <ul className="space-y-1 text-sm list-disc pl-4">
+      {items.map((item, i) => <li key={i}>{item}</li>)}
+    </ul>
+  );
+
+const ActionChecklist: React.FC<{
+  items: ActionItem[];
+  onStatusChange: (index: number, status: ActionItemStatus) => void;
+}> = ({ items, onStatusChange }) =>
+  items.length === 0 ? (
+    <p className="text-xs text-neutral-500">No action items found.</p>
+  ) : (
+    <div className="space-y-2">
+      {items.map((item, i) => (
+        <div key={i} className="flex items-start gap-2 text-sm">
+          <button
+            onClick={() => onStatusChange(i, item.status === 'done' ? 'open' : 'done')}
+            className="mt-0.5 shrink-0 accent-text"
+            title={item.status === 'done' ? 'Mark as open' : 'Mark as done'}
+          >
+            {item.status === 'done' ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+          </button>
+          <div className="flex-1 min-w-0">
+            <p className={item.status === 'done' ? 'line-through text-neutral-500' : ''}>{item.task}</p>
+            <p className="text-[11px] text-neutral-500">
+              {item.owner || 'Unassigned'} · Due {item.dueDate || 'TBD'}
+            </p>
+          </div>
+          <select
+            value={item.status}
+            onChange={e => onStatusChange(i, e.target.value as ActionItemStatus)}
+            className="bg-black/50 border border-white/10 rounded-md px-1.5 py-0.5 text-[11px] focus:outline-none cursor-pointer"
+          >
+            {(['open', 'in_progress', 'done'] as ActionItemStatus[]).map(status => (
+              <option key={status} value={status}>{formatStatus(status)}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  );
+
+const MinutesTables: React.FC<{ minutes: MeetingMinutes }> = ({ minutes }) => (
+  <>
+    {(minutes.date || minutes.meetingType) && (
+      <p className="text-xs text-neutral-400 mb-2">
+        {[minutes.meetingType, minutes.date].filter(Boolean).join(' · ')}
+      </p>
+    )}
+
+    <SectionTitle>Participants</SectionTitle>
+    {minutes.participants.length === 0 ? (
+      <p className="text-xs text-neutral-500">None recorded</p>
+    ) : (
+      <table className="w-full text-sm">
+        <tbody>
+          {minutes.participants.map((p, i) => (
+            <tr key={i} className="border-b border-white/5">
+              <td className="py-1 pr-2">{p.name}</td>
+              <td className="py-1 text-neutral-400">{p.role || '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+
+    <SectionTitle>Agenda</SectionTitle>
+    <BulletList items={minutes.agendaItems} />
+
+    <SectionTitle>Motions & Votes</SectionTitle>
+    {minutes.motions.length === 0 ? (
+      <p className="text-xs text-neutral-500">None recorded</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="text-neutral-500 text-left">
+            <tr>
+              <th className="py-1 pr-2 font-medium">Motion</th>
+              <th className="py-1 pr-2 font-medium">Moved</th>
+              <th className="py-1 pr-2 font-medium">Seconded</th>
+              <th className="py-1 pr-2 font-medium">Vote</th>
+              <th className="py-1 font-medium">Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {minutes.motions.map((m, i) => (
+              <tr key={i} className="border-t border-white/5 align-top">
+                <td className="py-1.5 pr-2">{m.motion}</td>
+                <td className="py-1.5 pr-2">{m.movedBy || '—'}</td>
+                <td className="py-1.5 pr-2">{m.secondedBy || '—'}</td>
+                <td className="py-1.5 pr-2 whitespace-nowrap">{formatVotes(m.votes)}</td>
+                <td className="py-1.5">
+                  <span className={`px-1.5 py-0.5 rounded uppercase text-[10px] font-medium ${RESULT_STYLES[m.result]}`}>
+                    {m.result}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+
+    <SectionTitle>Key Decisions</SectionTitle>
+    <BulletList items={minutes.decisions} />
+  </>
+);
+
+interface StructuredOutputViewProps {
+  data: StructuredOutput;
+  onChange: (data: StructuredOutput) => void;
+}
+
+export const StructuredOutputView: React.FC<StructuredOutputViewProps> = ({ data, onChange }) => {
+  const handleStatusChange = (index: number, status: ActionItemStatus) =>
+    onChange(setActionItemStatus(data, index, status));
+
+  return (
+    <div>
+      {data.format === 'MEETING' && <MinutesTables minutes={data.minutes} />}
+      {data.format === 'MEETING' && <SectionTitle>Action Items</SectionTitle>}
+      <ActionChecklist items={getActionItems(data)} onStatusChange={handleStatusChange} />
+      {data.format === 'MEETING' && (
+        <>
+          <SectionTitle>Open Items</SectionTitle>
+          <BulletList items={data.minutes.openItems} />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useRef, useState } from 'react';
+import { X, Plus, Copy, Trash2, RotateCcw, FileUp, Download } from 'lucide-react';
+import { OutputTemplate, SummaryLength } from '../types';
+import {
+  isBuiltInTemplate, isTemplateEdited, createTemplate, duplicateTemplate, resetTemplate,
+  templatesToJson, parseTemplatesJson, mergeTemplates
+} from '../services/templateService';
+import { downloadText } from '../services/download';
+
+const LENGTHS = [
+  { key: SummaryLength.SHORT, label: 'Short' },
+  { key: SummaryLength.MEDIUM, label: 'Medium' },
+  { key: SummaryLength.LONG, label: 'Long' },
+];
+
+interface TemplateManagerProps {
+  templates: OutputTemplate[];
+  initialId?: string;
+  onChange: (templates: OutputTemplate[]) => void;
+  onClose: () => void;
+}
+
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, initialId, onChange, onClose }) => {
+  const [selectedId, setSelectedId] = useState(initialId || templates[0]?.id);
+  const [importError, setImportError] = useState('');
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const selected = templates.find(t => t.id === selectedId) || templates[0];
+  const builtIn = isBuiltInTemplate(selected.id);
+
+  const update = (changes: Partial<OutputTemplate>) =>
+    onChange(templates.map(t => t.id === selected.id ? { ...t, ...changes, updatedAt: Date.now() } : t));
+
+  // Empty rules are dropped so clearing a field leaves the template unchanged
+  const setLengthRule = (length: SummaryLength, rule: string) => {
+    const { [length]: _, ...rest } = selected.lengthRules;
+    update({ lengthRules: rule ? { ...rest, [length]: rule } : rest });
+  };
+
+  const add = (template: OutputTemplate) => {
+    onChange([...templates, template]);
+    setSelectedId(template.id);
+  };
+
+  const remove = () => {
+    const index = templates.findIndex(t => t.id === selected.id);
+    const next = templates.filter(t => t.id !== selected.id);
+    onChange(next);
+    setSelectedId(next[Math.max(0, index - 1)]?.id);
+  };
+
+  const reset = () => {
+    const original = resetTemplate(selected.id);
+    if (original) onChange(templates.map(t => t.id === original.id ? original : t));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTemplatesJson(await file.text());
+      onChange(mergeTemplates(templates, imported));
+      setSelectedId(imported[0]?.id);
+      setImportError('');
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not import templates.');
+    }
+  };
+
+  const exportTemplates = (list: OutputTemplate[], name: string) =>
+    downloadText(templatesToJson(list), `kyra-${name}-${Date.now()}.json`, 'application/json');
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="glass-card rounded-2xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-white/5">
+          <h2 className="font-bold">Output Templates</h2>
+          <button onClick={onClose}><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Template list */}
+          <div className="w-48 shrink-0 border-r border-white/5 p-2 overflow-y-auto space-y-1">
+            {templates.map(t => (
+              <button
+                key={t.id}
+                onClick={() => setSelectedId(t.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-xs ${t.id === selected.id ? 'bg-white/10' : 'hover:bg-white/5'}`}
+              >
+                <span className="block truncate font-medium">{t.name}</span>
+                <span className="text-[10px] text-neutral-500">
+                  {isBuiltInTemplate(t.id) ? (isTemplateEdited(t) ? 'Built-in · edited' : 'Built-in') : 'Custom'}
+                </span>
+              </button>
+            ))}
+            <button
+              onClick={() => add(createTemplate())}
+              className="w-full px-3 py-2 rounded-lg text-xs text-neutral-400 hover:bg-white/5 flex items-center gap-1"
+            >
+              <Plus className="w-3.5 h-3.5" /> New template
+            </button>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 p-4 overflow-y-auto space-y-3 text-xs">
+            <label className="block">
+              <span className="text-neutral-500">Name</span>
+              <input
+                value={selected.name}
+                onChange={e => update({ name: e.target.value })}
+                className="mt-1 w-full bg-black/50 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-white/30"
+              />
+            </label>
+            <label className="block">
+              <span className="text-neutral-500">System prompt</span>
+              <textarea
+                value={selected.systemPrompt}
+                onChange={e => update({ systemPrompt: e.target.value })}
+                placeholder="What the model should turn the transcript into..."
+                className="mt-1 w-full h-40 bg-black/50 border border-white/10 rounded-lg p-3 text-sm font-mono resize-y focus:outline-none focus:border-white/30"
+              />
+              {!selected.systemPrompt.trim() && (
+                <span className="text-orange-300">Add a system prompt to use this template.</span>
+              )}
+            </label>
+            <div>
+              <span className="text-neutral-500">Length rules (leave empty if length doesn't apply)</span>
+              {LENGTHS.map(({ key, label }) => (
+                <label key={key} className="mt-1 flex items-center gap-2">
+                  <span className="w-14 text-neutral-400">{label}</span>
+                  <input
+                    value={selected.lengthRules[key] || ''}
+                    onChange={e => setLengthRule(key, e.target.value)}
+                    className="flex-1 bg-black/50 border border-white/10 rounded-lg px-3 py-1.5 focus:outline-none focus:border-white/30"
+                  />
+                </label>
+              ))}
+            </div>
+            <label className="block">
+              <span className="text-neutral-500">Example output</span>
+              <textarea
+                value={selected.exampleOutput}
+                onChange={e => update({ exampleOutput: e.target.value })}
+                placeholder="Optional sample showing the layout you want"
+                className="mt-1 w-full h-28 bg-black/50 border border-white/10 rounded-lg p-3 text-sm resize-y focus:outline-none focus:border-white/30"
+              />
+            </label>
+            {builtIn && (
+              <p className="text-neutral-500">
+                Structured mode for Actions and Meeting uses its own extraction prompt; edits here apply to plain-text output.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 p-4 border-t border-white/5 text-xs">
+          <button onClick={() => add(duplicateTemplate(selected))} className="px-3 py-1.5 glass-card rounded-lg flex items-center gap-1 hover:bg-white/10">
+            <Copy className="w-3.5 h-3.5" /> Duplicate
+          </button>
+          {builtIn ? (
+            <button
+              onClick={reset}
+              disabled={!isTemplateEdited(selected)}
+              className="px-3 py-1.5 glass-card rounded-lg flex items-center gap-1 hover:bg-white/10 disabled:opacity-30"
+            >
+              <RotateCcw className="w-3.5 h-3.5" /> Reset to default
+            </button>
+          ) : (
+            <button onClick={remove} className="px-3 py-1.5 glass-card rounded-lg flex items-center gap-1 hover:bg-white/10 hover:text-red-400">
+              <Trash2 className="w-3.5 h-3.5" /> Delete
+            </button>
+          )}
+          {importError && <span className="text-red-400">{importError}</span>}
+          <div className="ml-auto flex gap-2">
+            <button onClick={() => importRef.current?.click()} className="px-3 py-1.5 glass-card rounded-lg flex items-center gap-1 hover:bg-white/10">
+              <FileUp className="w-3.5 h-3.5" /> Import
+            </button>
+            <button onClick={() => exportTemplates([selected], 'template')} className="px-3 py-1.5 glass-card rounded-lg flex items-center gap-1 hover:bg-white/10">
+              <Download className="w-3.5 h-3.5" /> Export
+            </button>
+            <button onClick={() => exportTemplates(templates, 'templates')} className="px-3 py-1.5 glass-card rounded-lg hover:bg-white/10">
+              Export all
+            </button>
+            <input ref={importRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
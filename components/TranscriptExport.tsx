@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { TranscriptSegment } from '../types';
+import {
+  SubtitleOptions, DEFAULT_SUBTITLE_OPTIONS, buildCues, cuesToSrt, cuesToWebVtt, toTimestampedTranscript
+} from '../services/subtitleExport';
+import { downloadText } from '../services/download';
+
+const STORAGE_KEY = 'kyra_subtitle_options';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const loadOptions = (): SubtitleOptions => {
+  try {
+    return { ...DEFAULT_SUBTITLE_OPTIONS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_SUBTITLE_OPTIONS;
+  }
+};
+
+interface TranscriptExportProps {
+  segments: TranscriptSegment[];
+  onClose: () => void;
+}
+
+// Subtitle and timestamped transcript downloads for a transcript with timings
+export const TranscriptExport: React.FC<TranscriptExportProps> = ({ segments, onClose }) => {
+  const [options, setOptions] = useState(loadOptions);
+  const hasSpeakers = segments.some(s => s.speaker);
+
+  const update = (changes: Partial<SubtitleOptions>) => {
+    const next = { ...options, ...changes };
+    setOptions(next);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  };
+
+  const download = (type: 'srt' | 'vtt' | 'txt') => {
+    const filename = `kyra-transcript-${Date.now()}.${type}`;
+    if (type === 'txt') {
+      downloadText(toTimestampedTranscript(segments), filename);
+    } else {
+      const cues = buildCues(segments, {
+        ...options,
+        maxLineLength: clamp(options.maxLineLength, 16, 80) || DEFAULT_SUBTITLE_OPTIONS.maxLineLength,
+        maxCueMs: clamp(options.maxCueMs, 1000, 15000) || DEFAULT_SUBTITLE_OPTIONS.maxCueMs,
+      });
+      downloadText(type === 'srt' ? cuesToSrt(cues) : cuesToWebVtt(cues), filename, type === 'srt' ? 'application/x-subrip' : 'text/vtt');
+    }
+    onClose();
+  };
+
+  return (
+    <div className="absolute top-full right-0 mt-2 w-60 glass-card rounded-xl p-3 text-xs shadow-lg z-20 space-y-2">
+      {hasSpeakers && (
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.speakerLabels}
+            onChange={e => update({ speakerLabels: e.target.checked })}
+          />
+          Speaker labels on cues
+        </label>
+      )}
+      <label className="flex items-center justify-between gap-2">
+        Max line length
+        <input
+          type="number"
+          min={16}
+          max={80}
+          value={options.maxLineLength}
+          onChange={e => update({ maxLineLength: Number(e.target.value) })}
+          className="w-16 bg-black/50 border border-white/10 rounded-md px-2 py-1 focus:outline-none"
+        />
+      </label>
+      <label className="flex items-center justify-between gap-2">
+        Max cue length (s)
+        <input
+          type="number"
+          min={1}
+          max={15}
+          step={0.5}
+          value={options.maxCueMs / 1000}
+          onChange={e => update({ maxCueMs: Number(e.target.value) * 1000 })}
+          className="w-16 bg-black/50 border border-white/10 rounded-md px-2 py-1 focus:outline-none"
+        />
+      </label>
+      <div className="flex gap-1 pt-1">
+        <button onClick={() => download('srt')} className="flex-1 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 font-medium">SRT</button>
+        <button onClick={() => download('vtt')} className="flex-1 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 font-medium">VTT</button>
+        <button
+          onClick={() => download('txt')}
+          title="Plain text with a timestamp on each paragraph"
+          className="flex-1 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 font-medium"
+        >
+          TXT
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,134 @@
+import React, { useMemo, useState } from 'react';
+import { X, GitCompare, RotateCcw } from 'lucide-react';
+import { OutputVersion } from '../types';
+import { diffWords } from '../services/outputVersions';
+
+const CURRENT = 'current';
+
+const DIFF_STYLES = {
+  same: '',
+  added: 'bg-emerald-500/20 text-emerald-300',
+  removed: 'bg-red-500/20 text-red-300 line-through',
+};
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+interface VersionHistoryProps {
+  // Versions of the current tab, oldest first
+  versions: OutputVersion[];
+  formatName: string;
+  currentText: string;
+  // Display names for output language codes
+  languageNames: Record<string, string>;
+  onRestore: (version: OutputVersion) => void;
+  onClose: () => void;
+}
+
+export const VersionHistory: React.FC<VersionHistoryProps> = ({
+  versions, formatName, currentText, languageNames, onRestore, onClose,
+}) => {
+  const newestFirst = [...versions].reverse();
+  const [selectedId, setSelectedId] = useState(newestFirst[0]?.id || '');
+  // What the selected version is compared against: the current output or another version
+  const [compareId, setCompareId] = useState(CURRENT);
+  const selected = versions.find(v => v.id === selectedId);
+  const compareText = compareId === CURRENT ? currentText : versions.find(v => v.id === compareId)?.text || '';
+
+  // Changes from the selected version to the one it is compared with
+  const diff = useMemo(
+    () => (selected ? diffWords(selected.text, compareText) : []),
+    [selected, compareText]
+  );
+  const changed = diff.some(part => part.type !== 'same');
+
+  const label = (version: OutputVersion) => `v${versions.indexOf(version) + 1}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="glass-card rounded-2xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-white/5">
+          <h2 className="font-bold flex items-center gap-2">
+            <GitCompare className="w-4 h-4 accent-text" /> {formatName} Versions
+          </h2>
+          <button onClick={onClose}><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Version list */}
+          <div className="w-60 shrink-0 border-r border-white/5 p-2 overflow-y-auto space-y-1 text-xs">
+            {newestFirst.length === 0 && (
+              <p className="text-neutral-500 p-3">Versions appear here each time this format is generated.</p>
+            )}
+            {newestFirst.map(version => {
+              const { tone, summaryLength, language, voiceProfile } = version.settings;
+              return (
+                <button
+                  key={version.id}
+                  onClick={() => setSelectedId(version.id)}
+                  className={`w-full text-left px-3 py-2 rounded-lg ${version.id === selectedId ? 'bg-white/10' : 'hover:bg-white/5'}`}
+                >
+                  <span className="flex items-center gap-2">
+                    <span className="font-medium">{label(version)}</span>
+                    {version.edited && <span className="text-[10px] text-neutral-500">edited</span>}
+                    {version.text === currentText && <span className="text-[10px] accent-text">current</span>}
+                  </span>
+                  <span className="block text-[10px] text-neutral-500">{formatTime(version.createdAt)}</span>
+                  <span className="block text-[10px] text-neutral-400 truncate">
+                    {[tone, summaryLength?.toLowerCase(), language && (languageNames[language] || language), voiceProfile]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Diff */}
+          <div className="flex-1 flex flex-col min-w-0 p-4 gap-3 text-xs">
+            {selected ? (
+              <>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-neutral-500">Changes from {label(selected)} to</span>
+                  <select
+                    value={compareId}
+                    onChange={e => setCompareId(e.target.value)}
+                    className="bg-black/50 border border-white/10 rounded-md px-2 py-1 focus:outline-none cursor-pointer"
+                  >
+                    <option value={CURRENT}>Current output</option>
+                    {newestFirst.filter(v => v.id !== selected.id).map(v => (
+                      <option key={v.id} value={v.id}>{label(v)} · {formatTime(v.createdAt)}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => onRestore(selected)}
+                    disabled={selected.text === currentText}
+                    className="ml-auto px-3 py-1.5 accent-gradient rounded-lg text-black font-medium flex items-center gap-1 disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" /> Restore {label(selected)}
+                  </button>
+                </div>
+                {selected.settings.styleGuide && (
+                  <details className="text-neutral-400">
+                    <summary className="cursor-pointer">Style guide used</summary>
+                    <p className="mt-1 whitespace-pre-wrap text-neutral-500">{selected.settings.styleGuide}</p>
+                  </details>
+                )}
+                <div className="flex-1 overflow-y-auto bg-black/30 border border-white/10 rounded-xl p-4">
+                  {!changed && <p className="text-neutral-500 mb-2">No differences.</p>}
+                  <pre className="text-sm whitespace-pre-wrap">
+                    {diff.map((part, i) => (
+                      <span key={i} className={DIFF_STYLES[part.type]}>{part.text}</span>
+                    ))}
+                  </pre>
+                </div>
+              </>
+            ) : (
+              <p className="text-neutral-500">Select a version to compare it.</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
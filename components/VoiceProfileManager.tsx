@@ -0,0 +1,192 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Plus, Trash2, Check, Loader2, Wand2 } from 'lucide-react';
+import { VoiceProfile } from '../types';
+import { createVoiceProfile, learnStyleGuide, splitSamples } from '../services/voiceProfileService';
+
+// Below this the model has too little to go on
+const MIN_SAMPLE_LENGTH = 100;
+
+interface VoiceProfileManagerProps {
+  profiles: VoiceProfile[];
+  activeId: string | null;
+  // Takes an updater so a streaming draft never overwrites edits made meanwhile
+  onChange: React.Dispatch<React.SetStateAction<VoiceProfile[]>>;
+  onActivate: (id: string | null) => void;
+  onClose: () => void;
+}
+
+export const VoiceProfileManager: React.FC<VoiceProfileManagerProps> = ({ profiles, activeId, onChange, onActivate, onClose }) => {
+  const [selectedId, setSelectedId] = useState(activeId || profiles[0]?.id || null);
+  const [samples, setSamples] = useState('');
+  const [showSamples, setShowSamples] = useState(false);
+  const [learning, setLearning] = useState(false);
+  const [learnError, setLearnError] = useState('');
+  const learnRef = useRef<AbortController | null>(null);
+
+  // Closing the manager stops a draft still streaming into its profile
+  useEffect(() => () => learnRef.current?.abort(), []);
+
+  const selected = profiles.find(p => p.id === selectedId) || null;
+
+  const update = (id: string, changes: Partial<VoiceProfile>) =>
+    onChange(prev => prev.map(p => p.id === id ? { ...p, ...changes, updatedAt: Date.now() } : p));
+
+  const add = () => {
+    const profile = createVoiceProfile();
+    onChange(prev => [...prev, profile]);
+    setSelectedId(profile.id);
+  };
+
+  const remove = (id: string) => {
+    onChange(prev => prev.filter(p => p.id !== id));
+    if (activeId === id) onActivate(null);
+    setSelectedId(profiles.find(p => p.id !== id)?.id || null);
+  };
+
+  // Draft into the selected profile, or a new one when none is selected
+  const learn = async () => {
+    const list = splitSamples(samples);
+    if (list.join('').length < MIN_SAMPLE_LENGTH) {
+      setLearnError('Paste a few longer samples of your writing first.');
+      return;
+    }
+
+    let target = selected;
+    if (!target) {
+      target = createVoiceProfile('Learned voice');
+      onChange(prev => [...prev, target!]);
+      setSelectedId(target.id);
+    }
+    const id = target.id;
+
+    setLearning(true);
+    setLearnError('');
+    const controller = new AbortController();
+    learnRef.current = controller;
+    let draft = '';
+    try {
+      for await (const chunk of learnStyleGuide(list, controller.signal)) {
+        draft += chunk;
+        update(id, { styleGuide: draft });
+      }
+      setShowSamples(false);
+    } catch (err) {
+      if (!controller.signal.aborted) setLearnError(err instanceof Error ? err.message : 'Could not draft a style guide.');
+    } finally {
+      learnRef.current = null;
+      setLearning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="glass-card rounded-2xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-4 border-b border-white/5">
+          <h2 className="font-bold">Voice Profiles</h2>
+          <button onClick={onClose}><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Profile list */}
+          <div className="w-44 shrink-0 border-r border-white/5 p-2 overflow-y-auto space-y-1 text-xs">
+            {profiles.map(p => (
+              <button
+                key={p.id}
+                onClick={() => setSelectedId(p.id)}
+                className={`w-full text-left px-3 py-2 rounded-lg flex items-center gap-2 ${p.id === selectedId ? 'bg-white/10' : 'hover:bg-white/5'}`}
+              >
+                <span className="flex-1 truncate font-medium">{p.name || 'Untitled'}</span>
+                {p.id === activeId && <Check className="w-3.5 h-3.5 accent-text shrink-0" />}
+              </button>
+            ))}
+            <button onClick={add} className="w-full px-3 py-2 rounded-lg text-neutral-400 hover:bg-white/5 flex items-center gap-1">
+              <Plus className="w-3.5 h-3.5" /> New profile
+            </button>
+          </div>
+
+          {/* Editor */}
+          <div className="flex-1 p-4 overflow-y-auto space-y-3 text-xs">
+            {selected ? (
+              <>
+                <input
+                  value={selected.name}
+                  onChange={e => update(selected.id, { name: e.target.value })}
+                  placeholder="Profile name"
+                  className="w-full bg-black/50 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-white/30"
+                />
+                <textarea
+                  value={selected.styleGuide}
+                  onChange={e => update(selected.id, { styleGuide: e.target.value })}
+                  readOnly={learning}
+                  className="w-full h-48 bg-black/50 border border-white/10 rounded-xl p-4 text-sm resize-none focus:outline-none"
+                  placeholder="Describe your writing style..."
+                />
+              </>
+            ) : (
+              <p className="text-neutral-500 text-center mt-8">
+                Create a profile, or learn one from samples of your writing.
+              </p>
+            )}
+
+            {/* Learn from samples */}
+            {showSamples ? (
+              <div className="space-y-2">
+                <textarea
+                  value={samples}
+                  onChange={e => setSamples(e.target.value)}
+                  className="w-full h-36 bg-black/50 border border-white/10 rounded-xl p-3 text-sm resize-none focus:outline-none"
+                  placeholder={'Paste a few emails or posts you wrote, separated by a line of ---'}
+                />
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={learn}
+                    disabled={learning || !samples.trim()}
+                    className="px-3 py-1.5 accent-gradient rounded-lg text-black font-medium flex items-center gap-1 disabled:opacity-50"
+                  >
+                    {learning ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wand2 className="w-3.5 h-3.5" />}
+                    {selected?.styleGuide ? 'Redraft style guide' : 'Draft style guide'}
+                  </button>
+                  <span className="text-neutral-500">{splitSamples(samples).length} samples</span>
+                </div>
+                {learnError && <p className="text-red-400">{learnError}</p>}
+              </div>
+            ) : (
+              <button onClick={() => setShowSamples(true)} className="text-neutral-400 hover:text-white flex items-center gap-1">
+                <Wand2 className="w-3.5 h-3.5" /> Learn from samples
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-2 p-4 border-t border-white/5 text-xs">
+          {selected && (
+            <button
+              onClick={() => remove(selected.id)}
+              disabled={learning}
+              className="px-3 py-1.5 glass-card rounded-lg flex items-center gap-1 hover:bg-white/10 hover:text-red-400 disabled:opacity-30"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> Delete
+            </button>
+          )}
+          <div className="ml-auto flex gap-2">
+            {activeId && (
+              <button onClick={() => onActivate(null)} className="px-3 py-1.5 glass-card rounded-lg hover:bg-white/10">
+                Turn off
+              </button>
+            )}
+            <button
+              onClick={() => {
+                if (selected) onActivate(selected.id);
+                onClose();
+              }}
+              disabled={!selected || learning}
+              className="px-6 py-2 accent-gradient rounded-lg text-sm font-bold text-black disabled:opacity-50"
+            >
+              {selected?.id === activeId ? 'Done' : 'Use this profile'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+// Export action items to calendar (ICS) and task-tracker (CSV, JSON) formats
+
+import { ActionItem, ActionItemStatus } from '../types';
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// ============================================
+// DUE DATES
+// ============================================
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// The calendar date, or null for days the month doesn't have ("2025-02-31"),
+// which Date would otherwise roll over into the next month
+const calendarDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month, day);
+  return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day ? date : null;
+};
+
+// Resolve a due date ("2025-03-15", "March 15th", "15 March", "next Tuesday",
+// "Friday", "tomorrow", "end of this week") against a reference day.
+// Returns null for anything vague ("TBD", "soon", "next quarter").
+export function resolveDueDate(text: string | null, reference = new Date()): Date | null {
+  if (!text) return null;
+  const value = text.trim().toLowerCase();
+  const today = startOfDay(reference);
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return calendarDate(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+
+  if (value === 'today') return today;
+  if (value === 'tomorrow') return addDays(today, 1);
+  if (/end of (this |the )?week/.test(value)) return addDays(today, (5 - today.getDay() + 7) % 7);
+
+  const monthPattern = MONTHS.map(m => m.slice(0, 3) + `(?:${m.slice(3)})?`).join('|');
+  const monthDay = value.match(new RegExp(`\\b(${monthPattern})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`))
+    || value.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?(${monthPattern})(?:,?\\s+(\\d{4}))?\\b`));
+  if (monthDay) {
+    const [monthText, dayText] = /^\d/.test(monthDay[1]) ? [monthDay[2], monthDay[1]] : [monthDay[1], monthDay[2]];
+    const month = MONTHS.findIndex(m => m.startsWith(monthText.slice(0, 3)));
+    const day = Number(dayText);
+    if (monthDay[3]) return calendarDate(Number(monthDay[3]), month, day);
+    // No year given: the next time that date comes around
+    const candidate = calendarDate(today.getFullYear(), month, day);
+    return candidate && candidate >= today ? candidate : calendarDate(today.getFullYear() + 1, month, day);
+  }
+
+  const weekday = value.match(new RegExp(`\\b(?:next\\s+|this\\s+)?(${WEEKDAYS.join('|')})\\b`));
+  if (weekday) {
+    // The coming occurrence; a weekday named on that same day means next week's
+    const target = WEEKDAYS.indexOf(weekday[1]);
+    return addDays(today, (target - today.getDay() + 7) % 7 || 7);
+  }
+
+  return null;
+}
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// ============================================
+// PLAIN TEXT FALLBACK
+// ============================================
+
+// Parse the plain-text ACTION_ITEMS layout:
+// "1. Task - Owner: name - Due: date"
+export function parseActionItemsText(text: string): ActionItem[] {
+  return text
+    .split('\n')
+    .map(line => line.match(/^\s*\d+[.)]\s+(.+?)\s+-\s+Owner:\s*(.+?)\s+-\s+Due:\s*(.+?)(?:\s+\[(Done|In progress)\])?\s*$/i))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(([, task, owner, due, state]) => ({
+      task,
+      owner: /^unassigned$/i.test(owner) ? null : owner,
+      dueDate: /^tbd$/i.test(due) ? null : due,
+      status: (state?.toLowerCase() === 'done' ? 'done' : state ? 'in_progress' : 'open') as ActionItemStatus,
+    }));
+}
+
+// ============================================
+// ICS
+// ============================================
+
+const escapeIcs = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Fold lines longer than 75 octets as RFC 5545 requires
+function foldIcsLine(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = new TextEncoder().encode(char).length;
+    if (size + charSize > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const icsDate = (date: Date) => toIsoDate(date).replace(/-/g, '');
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const TODO_STATUS: Record<ActionItemStatus, string> = {
+  open: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  done: 'COMPLETED',
+};
+
+// A VTODO plus an all-day VEVENT for every item with a resolvable deadline
+export function actionItemsToIcs(items: ActionItem[], reference = new Date()): string {
+  const stamp = icsTimestamp(reference);
+  const uidBase = `${reference.getTime()}-kyra`;
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//AIXRDev Labs//KYRA//EN', 'CALSCALE:GREGORIAN'];
+
+  items.forEach((item, i) => {
+    const due = resolveDueDate(item.dueDate, reference);
+    if (!due) return;
+
+    const summary = escapeIcs(item.task);
+    const description = escapeIcs(`Owner: ${item.owner || 'Unassigned'}${item.dueDate ? `\nDue: ${item.dueDate}` : ''}`);
+
+    lines.push(
+      'BEGIN:VTODO',
+      `UID:todo-${i}-${uidBase}`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${summary}`,
+      `DESCRIPTION:${description}`,
+      `DUE;VALUE=DATE:${icsDate(due)}`,
+      `STATUS:${TODO_STATUS[item.status]}`,
+      'END:VTODO',
+      'BEGIN:VEVENT',
+      `UID:event-${i}-${uidBase}`,
+      `DTSTAMP:${stamp}`,
+      `SUMMARY:${escapeIcs(`Due: ${item.task}`)}`,
+      `DESCRIPTION:${description}`,
+      `DTSTART;VALUE=DATE:${icsDate(due)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(due, 1))}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+export const countDatedItems = (items: ActionItem[], reference = new Date()) =>
+  items.filter(item => resolveDueDate(item.dueDate, reference)).length;
+
+// ============================================
+// CSV & JSON
+// ============================================
+
+const escapeCsv = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Column names most task trackers map automatically on import
+export function actionItemsToCsv(items: ActionItem[], reference = new Date()): string {
+  const rows = [['Title', 'Assignee', 'Due Date', 'Status', 'Notes']];
+  items.forEach(item => {
+    const due = resolveDueDate(item.dueDate, reference);
+    rows.push([
+      item.task,
+      item.owner || '',
+      due ? toIsoDate(due) : '',
+      item.status === 'done' ? 'Done' : item.status === 'in_progress' ? 'In Progress' : 'To Do',
+      // Keep the original wording when it couldn't be turned into a date
+      item.dueDate && !due ? `Due: ${item.dueDate}` : '',
+    ]);
+  });
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+export function actionItemsToJson(items: ActionItem[], reference = new Date()): string {
+  return JSON.stringify(
+    items.map(item => {
+      const due = resolveDueDate(item.dueDate, reference);
+      return {
+        title: item.task,
+        assignee: item.owner,
+        dueDate: due ? toIsoDate(due) : null,
+        dueText: item.dueDate,
+        status: item.status,
+      };
+    }),
+    null,
+    2
+  );
+}
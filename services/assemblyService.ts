@@ -1,23 +1,12 @@
 // AssemblyAI Service for Speaker Diarization
 // Uses Vercel serverless functions as proxy to bypass CORS
 
-const ASSEMBLY_REALTIME_URL = 'wss://api.assemblyai.com/v2/realtime/ws';
+import type { DiarizedTranscript, DiarizedUtterance, TranscriptSegment } from '../types';
+import { startPcmCapture, AudioCapture, PcmChunk, PCM_SAMPLE_RATE } from './audioCapture';
 
-export interface DiarizedUtterance {
-  speaker: string;
-  text: string;
-  start: number;
-  end: number;
-  confidence: number;
-}
+export type { DiarizedTranscript, DiarizedUtterance };
 
-export interface DiarizedTranscript {
-  text: string;
-  utterances: DiarizedUtterance[];
-  speakers: string[];
-  status: 'completed' | 'error';
-  error?: string;
-}
+const ASSEMBLY_REALTIME_URL = 'wss://api.assemblyai.com/v2/realtime/ws';
 
 // Real-time transcription session
 export interface RealtimeSession {
@@ -25,6 +14,13 @@ export interface RealtimeSession {
   stop: () => void;
 }
 
+// Connection state reported while a realtime session is running
+export type RealtimeStatus = 'connected' | 'reconnecting' | 'closed';
+
+const MAX_RECONNECT_ATTEMPTS = 5;
+// Audio kept while reconnecting (~10s of 100ms chunks)
+const MAX_PENDING_CHUNKS = 100;
+
 // Get temporary token for real-time streaming (via proxy)
 async function getRealtimeToken(): Promise<string> {
   const response = await fetch('/api/assembly-token', {
@@ -41,104 +37,141 @@ async function getRealtimeToken(): Promise<string> {
   return data.token;
 }
 
-// Start real-time transcription with microphone
+// Start real-time transcription with microphone.
+// Resolves once the first connection is open, so callers can fall back to
+// another recognizer if streaming is unavailable. Later drops reconnect
+// automatically with a fresh token.
+// Timings are ms from the start of the session, continuing across reconnects.
 export async function startRealtimeTranscription(
-  onTranscript: (text: string, isFinal: boolean) => void,
-  onError: (error: string) => void
+  onTranscript: (text: string, isFinal: boolean, timing: Pick<TranscriptSegment, 'start' | 'end'>) => void,
+  onError: (error: string) => void,
+  onStatus?: (status: RealtimeStatus) => void
 ): Promise<RealtimeSession> {
-  try {
-    // Get temporary token via proxy
-    const token = await getRealtimeToken();
-    
-    // Connect WebSocket (this goes direct to AssemblyAI - WebSocket doesn't have CORS)
-    const socket = new WebSocket(`${ASSEMBLY_REALTIME_URL}?sample_rate=16000&token=${token}`);
-    
-    let audioContext: AudioContext | null = null;
-    let processor: ScriptProcessorNode | null = null;
-    let source: MediaStreamAudioSourceNode | null = null;
-    let stream: MediaStream | null = null;
+  let socket: WebSocket;
+  let stopped = false;
+  let reconnectAttempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  const pending: PcmChunk[] = [];
+  // Audio delivered to earlier sockets; each socket times its results from zero
+  let sentMs = 0;
+
+  let capture: AudioCapture | null = null;
+
+  const cleanupAudio = () => {
+    if (capture) capture.stop();
+    capture = null;
+  };
+
+  const sendAudio = (chunk: PcmChunk) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ audio_data: chunk.base64 }));
+      sentMs += chunk.pcm.length * 1000 / PCM_SAMPLE_RATE;
+    } else {
+      // Hold audio while reconnecting, dropping the oldest past the limit
+      pending.push(chunk);
+      if (pending.length > MAX_PENDING_CHUNKS) pending.shift();
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      stopped = true;
+      cleanupAudio();
+      onError('Live transcription connection lost.');
+      onStatus?.('closed');
+      return;
+    }
 
-    socket.onopen = async () => {
+    onStatus?.('reconnecting');
+    const delay = 500 * 2 ** reconnectAttempts;
+    reconnectAttempts++;
+    reconnectTimer = setTimeout(async () => {
+      if (stopped) return;
       try {
-        // Get microphone access
-        stream = await navigator.mediaDevices.getUserMedia({ 
-          audio: {
-            sampleRate: 16000,
-            channelCount: 1,
-            echoCancellation: true,
-            noiseSuppression: true,
-          } 
-        });
-
-        // Create audio context for raw PCM
-        audioContext = new AudioContext({ sampleRate: 16000 });
-        source = audioContext.createMediaStreamSource(stream);
-        processor = audioContext.createScriptProcessor(4096, 1, 1);
-
-        processor.onaudioprocess = (e) => {
-          if (socket.readyState === WebSocket.OPEN) {
-            const inputData = e.inputBuffer.getChannelData(0);
-            // Convert Float32 to Int16
-            const int16Data = new Int16Array(inputData.length);
-            for (let i = 0; i < inputData.length; i++) {
-              int16Data[i] = Math.max(-32768, Math.min(32767, inputData[i] * 32768));
-            }
-            // Send as base64
-            const uint8 = new Uint8Array(int16Data.buffer);
-            let binary = '';
-            for (let i = 0; i < uint8.length; i++) {
-              binary += String.fromCharCode(uint8[i]);
-            }
-            const base64 = btoa(binary);
-            socket.send(JSON.stringify({ audio_data: base64 }));
-          }
-        };
-
-        source.connect(processor);
-        processor.connect(audioContext.destination);
-      } catch (err: any) {
-        onError(`Microphone access failed: ${err.message}`);
+        socket = await connect();
+        reconnectAttempts = 0;
+        while (pending.length) sendAudio(pending.shift()!);
+        onStatus?.('connected');
+      } catch {
+        scheduleReconnect();
       }
-    };
+    }, delay);
+  };
 
-    socket.onmessage = (event) => {
-      const data = JSON.parse(event.data);
-      if (data.message_type === 'FinalTranscript' && data.text) {
-        onTranscript(data.text, true);
-      } else if (data.message_type === 'PartialTranscript' && data.text) {
-        onTranscript(data.text, false);
-      }
-    };
+  // Open a socket with a fresh token; resolves once it is open
+  const connect = async (): Promise<WebSocket> => {
+    const token = await getRealtimeToken();
+    
+    // Connect WebSocket (this goes direct to AssemblyAI - WebSocket doesn't have CORS)
+    const ws = new WebSocket(`${ASSEMBLY_REALTIME_URL}?sample_rate=${PCM_SAMPLE_RATE}&token=${token}`);
+    const offset = Math.round(sentMs);
+
+    return new Promise((resolve, reject) => {
+      let opened = false;
+
+      ws.onopen = () => {
+        opened = true;
+        resolve(ws);
+      };
+
+      ws.onmessage = (event) => {
+        const data = JSON.parse(event.data);
+        const timing = { start: offset + (data.audio_start || 0), end: offset + (data.audio_end || 0) };
+        if (data.message_type === 'FinalTranscript' && data.text) {
+          onTranscript(data.text, true, timing);
+        } else if (data.message_type === 'PartialTranscript' && data.text) {
+          onTranscript(data.text, false, timing);
+        }
+      };
+
+      ws.onerror = () => {
+        // Errors after opening are followed by onclose, which reconnects
+        if (!opened) reject(new Error('WebSocket connection error'));
+      };
+
+      ws.onclose = (event) => {
+        if (!opened) {
+          reject(new Error(`Connection closed: ${event.reason || 'Unknown reason'}`));
+        } else if (!stopped && event.code !== 1000 && ws === socket) {
+          scheduleReconnect();
+        }
+      };
+    });
+  };
 
-    socket.onerror = () => {
-      onError('WebSocket connection error');
-    };
+  try {
+    socket = await connect();
 
-    socket.onclose = (event) => {
-      if (event.code !== 1000) {
-        onError(`Connection closed: ${event.reason || 'Unknown reason'}`);
-      }
-    };
+    // Capture 16 kHz PCM off the main thread; chunks arrive already base64-encoded
+    capture = await startPcmCapture(chunk => {
+      if (!stopped) sendAudio(chunk);
+    });
+
+    onStatus?.('connected');
 
     // Return session with stop function
     return {
-      socket,
+      get socket() {
+        return socket;
+      },
       stop: () => {
+        stopped = true;
+        clearTimeout(reconnectTimer);
+
         // Send termination message
         if (socket.readyState === WebSocket.OPEN) {
           socket.send(JSON.stringify({ terminate_session: true }));
         }
-        socket.close();
+        socket.close(1000);
         
         // Cleanup audio
-        if (processor) processor.disconnect();
-        if (source) source.disconnect();
-        if (audioContext) audioContext.close();
-        if (stream) stream.getTracks().forEach(track => track.stop());
+        cleanupAudio();
       }
     };
   } catch (error: any) {
-    onError(error.message);
+    stopped = true;
+    socket?.close(1000);
+    cleanupAudio();
     throw error;
   }
 }
@@ -160,11 +193,11 @@ async function uploadAudio(audioBlob: Blob): Promise<string> {
 }
 
 // Start transcription with speaker diarization via proxy
-async function startTranscription(audioUrl: string): Promise<string> {
+async function startTranscription(audioUrl: string, inputLanguage?: string): Promise<string> {
   const response = await fetch('/api/assembly-transcribe', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ audio_url: audioUrl }),
+    body: JSON.stringify({ audio_url: audioUrl, inputLanguage }),
   });
 
   if (!response.ok) {
@@ -202,7 +235,8 @@ async function pollTranscription(transcriptId: string): Promise<any> {
 // Main function: Transcribe with speaker diarization
 export async function transcribeWithDiarization(
   audioFile: File | Blob,
-  onProgress?: (status: string) => void
+  onProgress?: (status: string) => void,
+  inputLanguage?: string
 ): Promise<DiarizedTranscript> {
   try {
     // Step 1: Upload audio
@@ -211,7 +245,7 @@ export async function transcribeWithDiarization(
 
     // Step 2: Start transcription with diarization
     onProgress?.('Starting speaker detection...');
-    const transcriptId = await startTranscription(uploadUrl);
+    const transcriptId = await startTranscription(uploadUrl, inputLanguage);
 
     // Step 3: Poll for results
     onProgress?.('Processing audio (this may take a moment)...');
@@ -233,6 +267,7 @@ export async function transcribeWithDiarization(
       text: result.text,
       utterances,
       speakers,
+      languages: result.language_code ? [result.language_code] : undefined,
       status: 'completed',
     };
   } catch (error: any) {
@@ -256,12 +291,70 @@ export function formatDiarizedTranscript(result: DiarizedTranscript): string {
     return result.text;
   }
 
-  // Format as "Speaker A: text\nSpeaker B: text\n..."
+  // Format as "Speaker A: text\nSpeaker B: text\n..." using any renamed speakers
   return result.utterances
-    .map(u => `Speaker ${u.speaker}: ${u.text}`)
+    .map(u => `${getSpeakerLabel(result, u.speaker)}: ${u.text}`)
     .join('\n\n');
 }
 
+// ============================================
+// SPEAKER EDITING
+// ============================================
+
+export function getSpeakerLabel(result: DiarizedTranscript, speaker: string): string {
+  return result.speakerNames?.[speaker] || `Speaker ${speaker}`;
+}
+
+// Rename a speaker everywhere; an empty name restores the default label
+export function renameSpeaker(result: DiarizedTranscript, speaker: string, name: string): DiarizedTranscript {
+  const speakerNames = { ...result.speakerNames };
+  if (name.trim()) {
+    speakerNames[speaker] = name.trim();
+  } else {
+    delete speakerNames[speaker];
+  }
+  return { ...result, speakerNames };
+}
+
+// Fold every utterance of `from` into `into` (for speakers the model split wrongly)
+export function mergeSpeakers(result: DiarizedTranscript, from: string, into: string): DiarizedTranscript {
+  if (from === into) return result;
+  const speakerNames = { ...result.speakerNames };
+  delete speakerNames[from];
+  return {
+    ...result,
+    utterances: result.utterances.map(u => u.speaker === from ? { ...u, speaker: into } : u),
+    speakers: result.speakers.filter(s => s !== from),
+    speakerNames,
+  };
+}
+
+// Move one utterance to another (possibly new) speaker
+export function reassignUtterance(result: DiarizedTranscript, index: number, speaker: string): DiarizedTranscript {
+  const utterances = result.utterances.map((u, i) => i === index ? { ...u, speaker } : u);
+  // Drop speakers left without utterances, keep any new one
+  const speakers = [...new Set([...result.speakers, speaker])]
+    .filter(s => utterances.some(u => u.speaker === s))
+    .sort();
+  return { ...result, utterances, speakers };
+}
+
+export function updateUtteranceText(result: DiarizedTranscript, index: number, text: string): DiarizedTranscript {
+  return {
+    ...result,
+    utterances: result.utterances.map((u, i) => i === index ? { ...u, text } : u),
+  };
+}
+
+// Next unused single-letter label after the existing speakers
+export function nextSpeakerLabel(result: DiarizedTranscript): string {
+  for (let code = 65; code <= 90; code++) {
+    const label = String.fromCharCode(code);
+    if (!result.speakers.includes(label)) return label;
+  }
+  return `S${result.speakers.length + 1}`;
+}
+
 // Check if AssemblyAI is available (proxy configured)
 export async function checkAssemblyAvailable(): Promise<boolean> {
   try {
@@ -0,0 +1,162 @@
+// Shared microphone capture built on AudioWorklet.
+// Captures at the device's native rate, resamples to 16 kHz mono and converts
+// to Int16 PCM (plus base64 for JSON transports) inside the audio thread, so
+// long recordings never block the UI.
+
+export const PCM_SAMPLE_RATE = 16000;
+
+export interface PcmChunk {
+  pcm: Int16Array;
+  base64: string;
+}
+
+export interface AudioCapture {
+  stream: MediaStream;
+  stop: () => void;
+}
+
+// ============================================
+// PCM CONVERSION
+// These functions are also inlined into the worklet source below, so they
+// must stay self-contained (no references to anything outside their body).
+// ============================================
+
+// Float32 [-1, 1] → Int16, clamping out-of-range samples
+export function floatToInt16(input: Float32Array): Int16Array {
+  const output = new Int16Array(input.length);
+  for (let i = 0; i < input.length; i++) {
+    const s = Math.max(-1, Math.min(1, input[i]));
+    output[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return output;
+}
+
+// Table-driven base64 (btoa is not available in the worklet scope, and
+// building a binary string char by char is slow for audio-sized buffers)
+export function bytesToBase64(bytes: Uint8Array): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+  let out = '';
+  let i = 0;
+  for (; i + 2 < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    out += alphabet[(n >> 18) & 63] + alphabet[(n >> 12) & 63] + alphabet[(n >> 6) & 63] + alphabet[n & 63];
+  }
+  if (i < bytes.length) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8);
+    out += alphabet[(n >> 18) & 63] + alphabet[(n >> 12) & 63];
+    out += i + 1 < bytes.length ? alphabet[(n >> 6) & 63] + '=' : '==';
+  }
+  return out;
+}
+
+// ============================================
+// WORKLET
+// ============================================
+
+const WORKLET_NAME = 'kyra-pcm-capture';
+
+const WORKLET_SOURCE = `
+const floatToInt16 = ${floatToInt16.toString()};
+const bytesToBase64 = ${bytesToBase64.toString()};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSize } = options.processorOptions;
+    // Input frames per output sample (sampleRate is the worklet global)
+    this.step = sampleRate / targetRate;
+    // Input frames left until the next output sample, and the ones gathered for it
+    this.remaining = this.step;
+    this.sum = 0;
+    this.count = 0;
+    this.buffer = new Float32Array(chunkSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+
+    // Each output sample averages the input frames it spans, a low-pass that
+    // keeps sound above 8 kHz from aliasing into the speech band when
+    // decimating. Windows carry across block boundaries.
+    for (let i = 0; i < input.length; i++) {
+      this.sum += input[i];
+      this.count++;
+      this.remaining--;
+      // More than one output per frame only when the device rate is below the target
+      while (this.remaining <= 0) {
+        this.buffer[this.filled++] = this.count ? this.sum / this.count : input[i];
+        this.sum = 0;
+        this.count = 0;
+        this.remaining += this.step;
+
+        if (this.filled === this.buffer.length) {
+          const pcm = floatToInt16(this.buffer);
+          const base64 = bytesToBase64(new Uint8Array(pcm.buffer));
+          this.port.postMessage({ pcm, base64 }, [pcm.buffer]);
+          this.filled = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('${WORKLET_NAME}', PcmCaptureProcessor);
+`;
+
+// Start capturing 16 kHz PCM from the microphone (or a given stream).
+// `chunkMs` sets how much audio each onChunk call carries.
+export async function startPcmCapture(
+  onChunk: (chunk: PcmChunk) => void,
+  options: { stream?: MediaStream; chunkMs?: number } = {}
+): Promise<AudioCapture> {
+  const stream = options.stream || await navigator.mediaDevices.getUserMedia({
+    audio: {
+      channelCount: 1,
+      echoCancellation: true,
+      noiseSuppression: true,
+    }
+  });
+
+  // Native device rate: browsers like Firefox refuse to connect a mic stream
+  // to a context running at a different rate, so resampling happens in the worklet
+  const audioContext = new AudioContext();
+  const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+
+  try {
+    await audioContext.audioWorklet.addModule(moduleUrl);
+  } catch (error) {
+    audioContext.close();
+    if (!options.stream) stream.getTracks().forEach(track => track.stop());
+    throw error;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = audioContext.createMediaStreamSource(stream);
+  const worklet = new AudioWorkletNode(audioContext, WORKLET_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    processorOptions: {
+      targetRate: PCM_SAMPLE_RATE,
+      chunkSize: Math.round(PCM_SAMPLE_RATE * (options.chunkMs || 100) / 1000),
+    },
+  });
+
+  worklet.port.onmessage = (event: MessageEvent<PcmChunk>) => onChunk(event.data);
+  source.connect(worklet);
+
+  return {
+    stream,
+    stop: () => {
+      worklet.port.onmessage = null;
+      source.disconnect();
+      worklet.disconnect();
+      audioContext.close();
+      if (!options.stream) stream.getTracks().forEach(track => track.stop());
+    }
+  };
+}
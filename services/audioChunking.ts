@@ -0,0 +1,248 @@
+// Long-audio transcription. Files too long for one request are decoded in the
+// browser, split into overlapping chunks at quiet points, sent to
+// /api/transcribe a few at a time as 16 kHz WAV, and stitched back together
+// with the words repeated in each overlap removed.
+
+import { bytesToBase64, floatToInt16, PCM_SAMPLE_RATE } from './audioCapture';
+import { MAX_AUDIO_FILE_SIZE, readFileAsBase64 } from './audioFile';
+import { transcribeAudioFile } from './geminiService';
+import type { TranscriptionResult } from '../types';
+
+// 5 minutes of 16 kHz 16-bit mono is ~9.6 MB of WAV, well inside the request
+// cap, and short enough that the transcript never hits the model's output limit
+const CHUNK_SECONDS = 300;
+// How far back from the chunk end to look for a pause to split on
+const SPLIT_SEARCH_SECONDS = 30;
+// Audio shared by neighbouring chunks so words on the boundary aren't lost
+const OVERLAP_SECONDS = 2;
+// Loudness is measured over windows this long when looking for a pause
+const FRAME_SECONDS = 0.05;
+const CONCURRENCY = 3;
+
+export interface AudioChunk {
+  // Sample offsets into the decoded audio
+  start: number;
+  end: number;
+}
+
+export interface TranscriptionProgress {
+  completed: number;
+  total: number;
+}
+
+// ============================================
+// DECODING
+// ============================================
+
+// Decode to 16 kHz mono; the offline context resamples while decoding
+export async function decodeAudio(file: Blob): Promise<Float32Array> {
+  const context = new OfflineAudioContext(1, 1, PCM_SAMPLE_RATE);
+  const audio = await context.decodeAudioData(await file.arrayBuffer());
+  if (audio.numberOfChannels === 1) return audio.getChannelData(0);
+
+  const mono = new Float32Array(audio.length);
+  for (let c = 0; c < audio.numberOfChannels; c++) {
+    const channel = audio.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / audio.numberOfChannels;
+  }
+  return mono;
+}
+
+// ============================================
+// SPLITTING
+// ============================================
+
+// Start of the quietest frame in [from, to)
+function quietestPoint(samples: Float32Array, from: number, to: number, frame: number): number {
+  let best = to;
+  let bestEnergy = Infinity;
+  for (let start = from; start + frame <= to; start += frame) {
+    let energy = 0;
+    for (let i = start; i < start + frame; i++) energy += samples[i] * samples[i];
+    if (energy < bestEnergy) {
+      bestEnergy = energy;
+      best = start;
+    }
+  }
+  return best;
+}
+
+// Chunk boundaries: each split lands on the quietest moment in the last
+// SPLIT_SEARCH_SECONDS of a chunk, and the next chunk starts OVERLAP_SECONDS earlier
+export function planChunks(samples: Float32Array, sampleRate = PCM_SAMPLE_RATE): AudioChunk[] {
+  const chunkLength = CHUNK_SECONDS * sampleRate;
+  const searchLength = SPLIT_SEARCH_SECONDS * sampleRate;
+  const overlap = OVERLAP_SECONDS * sampleRate;
+  const frame = Math.round(FRAME_SECONDS * sampleRate);
+
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+  while (samples.length - start > chunkLength) {
+    const target = start + chunkLength;
+    const split = quietestPoint(samples, target - searchLength, target, frame) + Math.floor(frame / 2);
+    chunks.push({ start, end: Math.min(samples.length, split + overlap) });
+    start = split;
+  }
+  chunks.push({ start, end: samples.length });
+  return chunks;
+}
+
+// 16-bit PCM WAV
+export function encodeWav(samples: Float32Array, sampleRate = PCM_SAMPLE_RATE): Uint8Array {
+  const pcm = floatToInt16(samples);
+  const bytes = new Uint8Array(44 + pcm.byteLength);
+  const view = new DataView(bytes.buffer);
+  const text = (offset: number, value: string) =>
+    [...value].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  bytes.set(new Uint8Array(pcm.buffer), 44);
+  return bytes;
+}
+
+// ============================================
+// STITCHING
+// ============================================
+
+const MAX_OVERLAP_WORDS = 30;
+// Shorter matches are as likely to be a phrase the speaker repeated
+const MIN_OVERLAP_WORDS = 2;
+// Words cut in half at a chunk edge are transcribed differently on each side
+const MAX_EDGE_WORDS = 2;
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+// Where `next` starts repeating the end of `previous`: `head` leading words of
+// `next` are repeated, and the last `tail` words of `previous`, cut off by the
+// chunk edge, come after the repeated part
+function findOverlap(previous: string[], next: string[]): { head: number; tail: number } {
+  const a = previous.map(normalizeWord);
+  const b = next.map(normalizeWord);
+  for (let length = Math.min(MAX_OVERLAP_WORDS, a.length, b.length); length >= MIN_OVERLAP_WORDS; length--) {
+    for (let skipEnd = 0; skipEnd <= MAX_EDGE_WORDS; skipEnd++) {
+      const tail = a.slice(a.length - skipEnd - length, a.length - skipEnd);
+      if (tail.length < length) continue;
+      for (let skipStart = 0; skipStart <= MAX_EDGE_WORDS; skipStart++) {
+        const head = b.slice(skipStart, skipStart + length);
+        if (head.length === length && head.every((word, i) => word === tail[i])) {
+          return { head: skipStart + length, tail: skipEnd };
+        }
+      }
+    }
+  }
+  return { head: 0, tail: 0 };
+}
+
+// Join chunk transcripts, dropping the words each one repeats from the last,
+// and the last one's cut-off words that the next transcribes in full.
+// Line breaks inside a chunk are kept. Matching is word-based, so scripts
+// written without spaces are joined as-is.
+export function stitchTranscripts(parts: string[]): string {
+  let result = '';
+  for (const part of parts) {
+    // Words at even indices, the whitespace between them at odd ones
+    const tokens = part.trim().split(/(\s+)/);
+    const words = tokens.filter((_, i) => i % 2 === 0 && tokens[i]);
+    if (!words.length) continue;
+    const overlap = findOverlap(result.split(/\s+/).slice(-MAX_OVERLAP_WORDS - MAX_EDGE_WORDS), words);
+    if (overlap.tail) {
+      const kept = result.split(/(\s+)/);
+      result = kept.slice(0, kept.length - overlap.tail * 2).join('');
+    }
+    const rest = tokens.slice(overlap.head * 2).join('');
+    if (rest) result = result ? `${result} ${rest}` : rest;
+  }
+  return result;
+}
+
+// ============================================
+// TRANSCRIPTION
+// ============================================
+
+// Run `task` over `items`, at most `limit` at a time, keeping result order.
+// Stops starting new tasks after the first failure.
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// Languages from every chunk, most frequently reported first
+function mergeLanguages(results: TranscriptionResult[]): string[] {
+  const counts = new Map<string, number>();
+  results.flatMap(r => r.languages || []).forEach(code => counts.set(code, (counts.get(code) || 0) + 1));
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)!);
+}
+
+// Transcribe a file of any length, reporting chunks as they finish
+export async function transcribeLongAudio(
+  file: Blob,
+  mimeType: string,
+  inputLanguage?: string,
+  onProgress?: (progress: TranscriptionProgress) => void
+): Promise<TranscriptionResult> {
+  let samples: Float32Array;
+  try {
+    samples = await decodeAudio(file);
+  } catch {
+    // The browser can't decode this format: send it whole if it fits
+    if (file.size > MAX_AUDIO_FILE_SIZE) {
+      throw new Error('This browser cannot decode the file to split it. Convert it to MP3 or WAV and try again.');
+    }
+    samples = new Float32Array(0);
+  }
+
+  // Short enough for one request: send the original, compressed file
+  if (samples.length <= CHUNK_SECONDS * PCM_SAMPLE_RATE && file.size <= MAX_AUDIO_FILE_SIZE) {
+    onProgress?.({ completed: 0, total: 1 });
+    const result = await transcribeAudioFile(await readFileAsBase64(file), mimeType, inputLanguage);
+    onProgress?.({ completed: 1, total: 1 });
+    if (!result.text.trim()) throw new Error('No speech was found in this audio.');
+    return { text: result.text.trim(), languages: result.languages };
+  }
+
+  const chunks = planChunks(samples);
+  let completed = 0;
+  onProgress?.({ completed, total: chunks.length });
+
+  const results = await mapWithConcurrency(chunks, CONCURRENCY, async ({ start, end }, index) => {
+    const wav = encodeWav(samples.subarray(start, end));
+    try {
+      const result = await transcribeAudioFile(bytesToBase64(wav), 'audio/wav', inputLanguage);
+      onProgress?.({ completed: ++completed, total: chunks.length });
+      return result;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Transcription failed';
+      throw new Error(`Part ${index + 1} of ${chunks.length} could not be transcribed: ${reason}`);
+    }
+  });
+
+  const text = stitchTranscripts(results.map(r => r.text));
+  if (!text) throw new Error('No speech was found in this audio.');
+  return { text, languages: mergeLanguages(results) };
+}
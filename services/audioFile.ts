@@ -0,0 +1,65 @@
+// Audio file helpers shared by the upload and meeting tools
+
+// Transcription requests are sent as base64 JSON to /api/transcribe, which
+// caps bodies at 20 MB; base64 adds a third, so 15 MB is the most one request carries
+export const MAX_AUDIO_FILE_SIZE = 15 * 1024 * 1024;
+
+// Larger or longer files are decoded and split into chunks in the browser
+// (see audioChunking.ts); this bounds the memory that takes
+export const MAX_LONG_AUDIO_FILE_SIZE = 100 * 1024 * 1024;
+
+// Diarization uploads go as raw bytes to /api/assembly-upload (100 MB cap)
+export const MAX_DIARIZATION_FILE_SIZE = 100 * 1024 * 1024;
+
+const AUDIO_EXTENSIONS = ['mp3', 'wav', 'm4a', 'aac', 'ogg', 'oga', 'webm', 'flac', 'aiff'];
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  webm: 'audio/webm',
+  flac: 'audio/flac',
+  aiff: 'audio/aiff',
+};
+
+export const AUDIO_ACCEPT = ['audio/*', ...AUDIO_EXTENSIONS.map(ext => `.${ext}`)].join(',');
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+// Browsers leave `type` empty for some formats, so fall back to the extension
+export function getAudioMimeType(file: File): string {
+  if (file.type.startsWith('audio/')) return file.type;
+  return EXTENSION_MIME_TYPES[extensionOf(file.name)] || file.type;
+}
+
+// Returns an error message, or null when the file can be transcribed
+export function validateAudioFile(file: File, maxSize = MAX_AUDIO_FILE_SIZE): string | null {
+  if (!getAudioMimeType(file).startsWith('audio/')) {
+    return `Unsupported file type. Use ${AUDIO_EXTENSIONS.map(ext => ext.toUpperCase()).join(', ')}.`;
+  }
+  if (file.size === 0) {
+    return 'This file is empty.';
+  }
+  if (file.size > maxSize) {
+    return `File is too large (${formatFileSize(file.size)}). Maximum is ${formatFileSize(maxSize)}.`;
+  }
+  return null;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Read a file as base64 without the data: URL prefix
+export function readFileAsBase64(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(new Error('Could not read the file.'));
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,31 @@
+// Records the raw microphone audio as a compressed Blob (via MediaRecorder)
+// so it can be kept with the session and played back later
+
+export interface AudioRecorder {
+  stop: () => Promise<Blob>;
+}
+
+export async function startAudioRecorder(): Promise<AudioRecorder> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start(1000);
+
+  return {
+    stop: () => new Promise(resolve => {
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      };
+      if (recorder.state !== 'inactive') {
+        recorder.stop();
+      } else {
+        recorder.onstop(new Event('stop'));
+      }
+    })
+  };
+}
@@ -0,0 +1,122 @@
+// Default output templates. Shared with the server (api/_lib/prompts.ts), which
+// falls back to these when a request carries no template, so this module must
+// stay free of browser APIs.
+
+import { OutputFormat, OutputTemplate, SummaryLength } from '../types';
+
+const EMAIL: OutputTemplate = {
+  id: OutputFormat.EMAIL,
+  name: 'Email',
+  systemPrompt: "Transform this into an email format. Include a subject line at the top. CRITICAL: Do NOT add information that wasn't in the original. Do NOT make assumptions or elaborate beyond what was said. Only restructure what's given into email format. Plain text only.",
+  lengthRules: {
+    [SummaryLength.SHORT]: "Keep it very brief - 2-3 sentences max. Just the essential message.",
+    [SummaryLength.MEDIUM]: "Keep it concise - one short paragraph.",
+    [SummaryLength.LONG]: "Can be more detailed but still professional and to the point.",
+  },
+  exampleOutput: '',
+};
+
+const SUMMARY: OutputTemplate = {
+  id: OutputFormat.SUMMARY,
+  name: 'Summary',
+  systemPrompt: "Summarize the content. Only include what was actually said. Do NOT add assumptions. Plain text only.",
+  lengthRules: {
+    [SummaryLength.SHORT]: "Summarize to max 1-2 sentences.",
+    [SummaryLength.MEDIUM]: "Summarize to 2-3 sentences.",
+    [SummaryLength.LONG]: "Summarize to one paragraph with key points.",
+  },
+  exampleOutput: '',
+};
+
+const ACTION_ITEMS: OutputTemplate = {
+  id: OutputFormat.ACTION_ITEMS,
+  name: 'Actions',
+  systemPrompt: `Extract all action items, tasks, and to-dos from this content. Format as a clear, numbered list. For each item include:
+- The task itself
+- Who is responsible (if mentioned)
+- Deadline or timeframe (if mentioned)
+
+Output as plain text only. Use this format:
+1. [Task description] - Owner: [name or "Unassigned"] - Due: [date or "TBD"]
+
+If no clear action items exist, list potential next steps based on the content.`,
+  lengthRules: {},
+  exampleOutput: '',
+};
+
+const SOCIAL: OutputTemplate = {
+  id: OutputFormat.SOCIAL,
+  name: 'Social',
+  systemPrompt: "Create a social media post for LinkedIn/X. Use plain text with emojis for visual appeal. ONLY use information from the input - do NOT add assumptions or elaborate. Keep it under 280 characters. NO asterisks, NO markdown.",
+  lengthRules: {},
+  exampleOutput: '',
+};
+
+const MEETING: OutputTemplate = {
+  id: OutputFormat.MEETING,
+  name: 'Meeting',
+  systemPrompt: `You are an expert meeting transcription analyst specializing in formal meetings, board meetings, and council sessions. Analyze this transcript and create professional meeting notes.
+
+CRITICAL - SPEAKER DETECTION RULES:
+1. FIRST, scan the entire transcript to count distinct speakers. Look for:
+   - Names mentioned directly ("Hey John", "Thanks Sarah", "Councilman Work")
+   - Titles and roles ("Madam Chair", "Council Member", "Secretary")
+   - Self-introductions ("I'm Mike from engineering")
+   - Different perspectives/opinions on the same topic
+   - Question-answer pairs (questioner vs answerer)
+
+2. SPEAKER LABELING:
+   - If names are mentioned: Use actual names (e.g., "Councilman Work", "Sarah")
+   - If roles are clear: Use role labels (e.g., "Chair", "Council Member", "Secretary")
+   - If neither: Use "Speaker A", "Speaker B", "Speaker C" etc.
+
+3. VOTING & MOTIONS DETECTION:
+   - Look for motion language: "motion to", "I move that", "second the motion"
+   - Track who made motions and who seconded
+   - Detect voting: "all in favor", "aye", "nay", "opposed", "abstain"
+   - Record roll calls if mentioned
+   - Note if motion passed or failed
+
+OUTPUT FORMAT (plain text only, NO markdown, NO asterisks, NO hashtags):
+
+MEETING NOTES
+Date: [If mentioned, otherwise omit]
+Meeting Type: [Council, Board, Team, etc. if detectable]
+
+PARTICIPANTS:
+[List each speaker with name/title and role]
+Example:
+- Jamie Cosette Sanchez (Chair) - Presided over meeting
+- Councilman Work - Made motions
+- Council Members (collective) - Voted on items
+
+AGENDA ITEMS DISCUSSED:
+[List each topic/item discussed in order]
+
+MOTIONS & VOTES:
+[For each motion, record:]
+- Motion: [What was proposed]
+- Moved by: [Name]
+- Seconded by: [Name if mentioned]
+- Vote: [Aye/Nay counts or "Voice vote - passed/failed"]
+- Result: [Passed/Failed/Tabled]
+
+KEY DECISIONS:
+[List all decisions made with outcomes]
+
+ACTION ITEMS:
+[Owner] → [Task] → [Deadline if mentioned]
+
+OPEN ITEMS / FOLLOW-UPS:
+[Unresolved questions or items for future meetings]
+
+Be thorough with voting records - this is critical for meeting minutes accuracy.`,
+  lengthRules: {},
+  exampleOutput: '',
+};
+
+// In tab order
+export const BUILT_IN_TEMPLATES: OutputTemplate[] = [EMAIL, SUMMARY, ACTION_ITEMS, SOCIAL, MEETING];
+
+export const getBuiltInTemplate = (id: string): OutputTemplate | undefined =>
+  BUILT_IN_TEMPLATES.find(t => t.id === id);
@@ -0,0 +1,376 @@
+// Rich document export (DOCX, PDF, Markdown, HTML) for generated outputs.
+// Outputs are first turned into a small document model - headings, bullet
+// lists and tables - either from structured minutes/action items or by reading
+// the plain-text layouts the prompts ask for. Each renderer works from that model.
+
+import { ActionItem, MeetingMinutes, Motion, OutputFormat, StructuredOutput } from '../types';
+import { formatStatus } from './structuredOutput';
+import { parseActionItemsText } from './actionItemExport';
+
+export type DocumentBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'bullets'; items: string[] }
+  | { type: 'table'; headers: string[]; rows: string[][] };
+
+export interface DocumentSection {
+  heading: string;
+  blocks: DocumentBlock[];
+}
+
+export interface ExportDocument {
+  title: string;
+  // Label/value pairs shown under the title (date, meeting type, subject)
+  meta: [string, string][];
+  sections: DocumentSection[];
+}
+
+export type DocumentExportType = 'docx' | 'pdf' | 'md' | 'html';
+
+const FORMAT_TITLES: Partial<Record<OutputFormat, string>> = {
+  [OutputFormat.EMAIL]: 'Email',
+  [OutputFormat.SUMMARY]: 'Summary',
+  [OutputFormat.ACTION_ITEMS]: 'Action Items',
+  [OutputFormat.SOCIAL]: 'Social Post',
+  [OutputFormat.MEETING]: 'Meeting Minutes',
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const titleCase = (text: string) =>
+  text.toLowerCase().replace(/(^|[\s/(])(\p{L})/gu, (_, lead, letter) => lead + letter.toUpperCase());
+
+// ============================================
+// FROM STRUCTURED OUTPUT
+// ============================================
+
+const listOrNone = (items: string[]): DocumentBlock =>
+  items.length ? { type: 'bullets', items } : { type: 'paragraph', text: 'None recorded' };
+
+const count = (value: number | null) => value === null ? '—' : String(value);
+
+function actionItemsTable(items: ActionItem[]): DocumentBlock {
+  if (items.length === 0) return { type: 'paragraph', text: 'No action items found.' };
+  return {
+    type: 'table',
+    headers: ['Task', 'Owner', 'Due', 'Status'],
+    rows: items.map(item => [item.task, item.owner || 'Unassigned', item.dueDate || 'TBD', formatStatus(item.status)]),
+  };
+}
+
+function motionsTable(motions: Motion[]): DocumentBlock {
+  if (motions.length === 0) return { type: 'paragraph', text: 'None recorded' };
+  return {
+    type: 'table',
+    headers: ['Motion', 'Moved by', 'Seconded by', 'Aye', 'Nay', 'Abstain', 'Result'],
+    rows: motions.map(m => [
+      m.motion, m.movedBy || '—', m.secondedBy || '—',
+      count(m.votes.aye), count(m.votes.nay), count(m.votes.abstain), capitalize(m.result),
+    ]),
+  };
+}
+
+export function minutesToDocument(minutes: MeetingMinutes): ExportDocument {
+  const meta: [string, string][] = [];
+  if (minutes.date) meta.push(['Date', minutes.date]);
+  if (minutes.meetingType) meta.push(['Meeting Type', minutes.meetingType]);
+
+  return {
+    title: 'Meeting Minutes',
+    meta,
+    sections: [
+      {
+        heading: 'Participants',
+        blocks: [minutes.participants.length
+          ? { type: 'table', headers: ['Name', 'Role'], rows: minutes.participants.map(p => [p.name, p.role || '—']) }
+          : { type: 'paragraph', text: 'None recorded' }],
+      },
+      { heading: 'Agenda Items Discussed', blocks: [listOrNone(minutes.agendaItems)] },
+      { heading: 'Motions & Votes', blocks: [motionsTable(minutes.motions)] },
+      { heading: 'Key Decisions', blocks: [listOrNone(minutes.decisions)] },
+      { heading: 'Action Items', blocks: [actionItemsTable(minutes.actionItems)] },
+      { heading: 'Open Items / Follow-ups', blocks: [listOrNone(minutes.openItems)] },
+    ],
+  };
+}
+
+export function structuredToDocument(data: StructuredOutput): ExportDocument {
+  return data.format === 'MEETING'
+    ? minutesToDocument(data.minutes)
+    : { title: 'Action Items', meta: [], sections: [{ heading: '', blocks: [actionItemsTable(data.actionItems)] }] };
+}
+
+// ============================================
+// FROM PLAIN TEXT
+// ============================================
+
+// "PARTICIPANTS:", "MOTIONS & VOTES:", "MEETING NOTES"
+const HEADING_PATTERN = /^[A-Z][A-Z0-9 &/,'()-]{2,60}:?$/;
+const META_PATTERN = /^(Date|Meeting Type|Subject):\s*(.+)$/i;
+const BULLET_PATTERN = /^(?:[-•*]|\d+[.)])\s+/;
+
+const stripBullet = (line: string) => line.replace(BULLET_PATTERN, '');
+
+// "- Jamie Sanchez (Chair) - Presided over meeting"
+function participantsTable(items: string[]): DocumentBlock {
+  const rows = items.map(item => {
+    const match = item.match(/^(.+?)(?:\s*\(([^)]+)\))?(?:\s+[-–]\s+(.+))?$/);
+    return match ? [match[1], match[2] || '—', match[3] || ''] : [item, '—', ''];
+  });
+  return rows.some(row => row[2])
+    ? { type: 'table', headers: ['Name', 'Role', 'Notes'], rows }
+    : { type: 'table', headers: ['Name', 'Role'], rows: rows.map(row => row.slice(0, 2)) };
+}
+
+// Consecutive "Motion: / Moved by: / Seconded by: / Vote: / Result:" bullets
+function motionRows(items: string[]): string[][] | null {
+  const fields = ['motion', 'moved by', 'seconded by', 'vote', 'result'];
+  const rows: string[][] = [];
+  for (const item of items) {
+    const match = item.match(/^([^:]+):\s*(.*)$/);
+    const field = match ? fields.indexOf(match[1].trim().toLowerCase()) : -1;
+    if (field < 0) return null;
+    if (field === 0 || rows.length === 0) rows.push(['', '', '', '', '']);
+    rows[rows.length - 1][field] = match![2];
+  }
+  return rows.length ? rows : null;
+}
+
+// "Owner → Task → Deadline"
+function arrowRows(items: string[]): string[][] | null {
+  const rows = items.map(item => item.split(/\s*→\s*/));
+  return rows.every(row => row.length >= 2)
+    ? rows.map(([owner, task, due]) => [task, owner, due || 'TBD'])
+    : null;
+}
+
+// Turn a section's collected bullets into the richest block that fits
+function bulletsToBlock(heading: string, items: string[]): DocumentBlock {
+  const key = heading.toUpperCase();
+  if (key.startsWith('PARTICIPANTS')) return participantsTable(items);
+  if (key.startsWith('MOTIONS')) {
+    const rows = motionRows(items);
+    if (rows) return { type: 'table', headers: ['Motion', 'Moved by', 'Seconded by', 'Vote', 'Result'], rows };
+  }
+  if (key.startsWith('ACTION ITEMS')) {
+    const rows = arrowRows(items);
+    if (rows) return { type: 'table', headers: ['Task', 'Owner', 'Due'], rows };
+  }
+  return { type: 'bullets', items };
+}
+
+// Read the plain-text layouts the prompts produce. Unrecognized text still
+// exports, as paragraphs under the format's title.
+export function textToDocument(text: string, format: OutputFormat): ExportDocument {
+  const doc: ExportDocument = { title: FORMAT_TITLES[format] || 'Output', meta: [], sections: [] };
+
+  if (format === OutputFormat.ACTION_ITEMS) {
+    const items = parseActionItemsText(text);
+    if (items.length) {
+      doc.sections.push({ heading: '', blocks: [actionItemsTable(items)] });
+      return doc;
+    }
+  }
+
+  let section: DocumentSection = { heading: '', blocks: [] };
+  let paragraph: string[] = [];
+  let bullets: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length) section.blocks.push({ type: 'paragraph', text: paragraph.join('\n') });
+    if (bullets.length) section.blocks.push(bulletsToBlock(section.heading, bullets));
+    paragraph = [];
+    bullets = [];
+  };
+
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    const meta = line.match(META_PATTERN);
+
+    if (!line) {
+      // Blank lines split paragraphs; bullet runs (e.g. several motions) carry on
+      if (paragraph.length) flush();
+    } else if (index === 0 && HEADING_PATTERN.test(line) && !line.endsWith(':')) {
+      doc.title = titleCase(line);
+    } else if (HEADING_PATTERN.test(line)) {
+      flush();
+      if (section.heading || section.blocks.length) doc.sections.push(section);
+      section = { heading: titleCase(line.replace(/:$/, '')), blocks: [] };
+    } else if (meta && doc.sections.length === 0 && !section.heading) {
+      doc.meta.push([titleCase(meta[1]), meta[2]]);
+    } else if (BULLET_PATTERN.test(line) || (section.heading && line.includes('→'))) {
+      if (paragraph.length) flush();
+      bullets.push(stripBullet(line));
+    } else {
+      if (bullets.length) flush();
+      paragraph.push(line);
+    }
+  });
+
+  flush();
+  if (section.heading || section.blocks.length) doc.sections.push(section);
+  return doc;
+}
+
+export function outputToDocument(text: string, format: OutputFormat, structured?: StructuredOutput): ExportDocument {
+  return structured ? structuredToDocument(structured) : textToDocument(text, format);
+}
+
+// ============================================
+// MARKDOWN
+// ============================================
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+
+function blockToMarkdown(block: DocumentBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+      // Trailing double space keeps single line breaks inside a paragraph
+      return block.text.split('\n').join('  \n');
+    case 'bullets':
+      return block.items.map(item => `- ${item}`).join('\n');
+    case 'table':
+      return [
+        `| ${block.headers.map(escapeCell).join(' | ')} |`,
+        `| ${block.headers.map(() => '---').join(' | ')} |`,
+        ...block.rows.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+      ].join('\n');
+  }
+}
+
+export function documentToMarkdown(doc: ExportDocument): string {
+  const parts = [`# ${doc.title}`];
+  if (doc.meta.length) parts.push(doc.meta.map(([label, value]) => `**${label}:** ${value}`).join('  \n'));
+  for (const section of doc.sections) {
+    if (section.heading) parts.push(`## ${section.heading}`);
+    parts.push(...section.blocks.map(blockToMarkdown));
+  }
+  return parts.join('\n\n') + '\n';
+}
+
+// ============================================
+// HTML
+// Inline styles throughout: most email clients drop <style> blocks
+// ============================================
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLES = {
+  body: 'margin:0;padding:24px;font-family:Arial,Helvetica,sans-serif;font-size:14px;line-height:1.5;color:#1a1a1a;',
+  h1: 'margin:0 0 8px;font-size:22px;',
+  h2: 'margin:24px 0 8px;font-size:16px;border-bottom:1px solid #ddd;padding-bottom:4px;',
+  meta: 'margin:0 0 16px;color:#555;',
+  p: 'margin:0 0 12px;',
+  ul: 'margin:0 0 12px;padding-left:20px;',
+  table: 'border-collapse:collapse;width:100%;margin:0 0 12px;',
+  th: 'border:1px solid #ccc;background:#f3f3f3;padding:6px 8px;text-align:left;font-size:13px;',
+  td: 'border:1px solid #ccc;padding:6px 8px;vertical-align:top;font-size:13px;',
+};
+
+function blockToHtml(block: DocumentBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p style="${HTML_STYLES.p}">${escapeHtml(block.text).replace(/\n/g, '<br>')}</p>`;
+    case 'bullets':
+      return `<ul style="${HTML_STYLES.ul}">${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    case 'table': {
+      const head = block.headers.map(h => `<th style="${HTML_STYLES.th}">${escapeHtml(h)}</th>`).join('');
+      const rows = block.rows
+        .map(row => `<tr>${row.map(cell => `<td style="${HTML_STYLES.td}">${escapeHtml(cell).replace(/\n/g, '<br>')}</td>`).join('')}</tr>`)
+        .join('');
+      return `<table style="${HTML_STYLES.table}"><thead><tr>${head}</tr></thead><tbody>${rows}</tbody></table>`;
+    }
+  }
+}
+
+// Body markup only, for pasting into an email
+export function documentToHtmlFragment(doc: ExportDocument): string {
+  const parts = [`<h1 style="${HTML_STYLES.h1}">${escapeHtml(doc.title)}</h1>`];
+  if (doc.meta.length) {
+    const meta = doc.meta.map(([label, value]) => `<strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}`);
+    parts.push(`<p style="${HTML_STYLES.meta}">${meta.join('<br>')}</p>`);
+  }
+  for (const section of doc.sections) {
+    if (section.heading) parts.push(`<h2 style="${HTML_STYLES.h2}">${escapeHtml(section.heading)}</h2>`);
+    parts.push(...section.blocks.map(blockToHtml));
+  }
+  return parts.join('\n');
+}
+
+export function documentToHtml(doc: ExportDocument): string {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(doc.title)}</title>
+</head>
+<body style="${HTML_STYLES.body}">
+${documentToHtmlFragment(doc)}
+</body>
+</html>
+`;
+}
+
+// ============================================
+// DOCX & PDF
+// ============================================
+
+// The docx library is only loaded when someone exports a Word document
+export async function documentToDocx(doc: ExportDocument): Promise<Blob> {
+  const {
+    Document, Packer, Paragraph, TextRun, HeadingLevel, Table, TableRow, TableCell, WidthType,
+  } = await import('docx');
+
+  const lines = (text: string) => text.split('\n').map((line, i) => new TextRun({ text: line, break: i > 0 ? 1 : 0 }));
+
+  const cell = (text: string, header = false) => new TableCell({
+    children: [new Paragraph({ children: header ? [new TextRun({ text, bold: true })] : lines(text) })],
+  });
+
+  const children: (InstanceType<typeof Paragraph> | InstanceType<typeof Table>)[] = [
+    new Paragraph({ text: doc.title, heading: HeadingLevel.TITLE }),
+    ...doc.meta.map(([label, value]) => new Paragraph({
+      children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)],
+    })),
+  ];
+
+  for (const section of doc.sections) {
+    if (section.heading) {
+      children.push(new Paragraph({ text: section.heading, heading: HeadingLevel.HEADING_1 }));
+    }
+    for (const block of section.blocks) {
+      if (block.type === 'paragraph') {
+        children.push(new Paragraph({ children: lines(block.text) }));
+      } else if (block.type === 'bullets') {
+        children.push(...block.items.map(item => new Paragraph({ text: item, bullet: { level: 0 } })));
+      } else {
+        children.push(new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            new TableRow({ tableHeader: true, children: block.headers.map(h => cell(h, true)) }),
+            ...block.rows.map(row => new TableRow({ children: row.map(text => cell(text)) })),
+          ],
+        }));
+        // Keeps consecutive tables from running together
+        children.push(new Paragraph({ text: '' }));
+      }
+    }
+  }
+
+  return Packer.toBlob(new Document({ sections: [{ children }] }));
+}
+
+// PDF goes through the browser's print dialog ("Save as PDF"), which renders
+// Chinese and Tamil output with system fonts instead of bundling font files
+export function printDocument(doc: ExportDocument) {
+  const win = window.open('', '_blank');
+  if (!win) {
+    throw new Error('Allow pop-ups for this site to save as PDF.');
+  }
+  win.document.open();
+  win.document.write(documentToHtml(doc));
+  win.document.close();
+  win.focus();
+  win.print();
+}
@@ -0,0 +1,16 @@
+// Save generated content as a file through a temporary object URL
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+export function downloadText(content: string, filename: string, type = 'text/plain') {
+  downloadBlob(new Blob([content], { type: `${type};charset=utf-8` }), filename);
+}
@@ -0,0 +1,114 @@
+// Session history persisted in IndexedDB.
+// Audio lives in its own store so listing sessions never loads the blobs.
+
+import type { AppSession } from '../types';
+
+const DB_NAME = 'kyra';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+const AUDIO_STORE = 'audio';
+
+interface SessionAudio {
+  id: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+          db.createObjectStore(AUDIO_STORE, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error('Could not open session history'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+// Run one request in its own transaction and resolve with its result
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+}
+
+export const createSessionId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+export async function saveSession(session: AppSession): Promise<void> {
+  await withStore(SESSION_STORE, 'readwrite', store => store.put(session));
+}
+
+export async function getSession(id: string): Promise<AppSession | undefined> {
+  return withStore(SESSION_STORE, 'readonly', store => store.get(id));
+}
+
+// All sessions, newest first
+export async function listSessions(): Promise<AppSession[]> {
+  const sessions = await withStore<AppSession[]>(SESSION_STORE, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore(SESSION_STORE, 'readwrite', store => store.delete(id));
+  await withStore(AUDIO_STORE, 'readwrite', store => store.delete(id));
+}
+
+export async function saveSessionAudio(id: string, blob: Blob): Promise<void> {
+  await withStore(AUDIO_STORE, 'readwrite', store => store.put({ id, blob } as SessionAudio));
+}
+
+export async function getSessionAudio(id: string): Promise<Blob | null> {
+  const record = await withStore<SessionAudio | undefined>(AUDIO_STORE, 'readonly', store => store.get(id));
+  return record?.blob || null;
+}
+
+export interface SessionFilter {
+  query?: string;
+  format?: string;
+  // Only sessions at or after this time (ms since epoch)
+  since?: number;
+}
+
+export function filterSessions(sessions: AppSession[], filter: SessionFilter): AppSession[] {
+  const query = filter.query?.trim().toLowerCase();
+  return sessions.filter(session => {
+    if (filter.format && session.format !== filter.format && !session.outputs?.[filter.format]) {
+      return false;
+    }
+    if (filter.since && session.timestamp < filter.since) return false;
+    if (query) {
+      const outputs = Object.values(session.outputs || {}).join('\n');
+      const haystack = `${session.transcript}\n${session.output || ''}\n${outputs}`.toLowerCase();
+      if (!haystack.includes(query)) return false;
+    }
+    return true;
+  });
+}
@@ -0,0 +1,66 @@
+// Spoken input languages for recording and upload. Shared with the server,
+// which turns the choice into a transcription hint (api/_lib/prompts.ts).
+
+export interface InputLanguage {
+  id: string;
+  label: string;
+  // BCP-47 tag for browser speech recognition; empty for auto-detect
+  speechLang: string;
+  // ISO 639-1 code for services that take a single language (AssemblyAI, Whisper).
+  // Absent for auto-detect and mixed-language choices, which are detected instead.
+  code?: string;
+  // What the transcription model is told it will hear
+  prompt?: string;
+}
+
+export const AUTO_DETECT = 'auto';
+
+export const INPUT_LANGUAGES: InputLanguage[] = [
+  { id: AUTO_DETECT, label: 'Auto-detect', speechLang: '' },
+  {
+    id: 'en-SG',
+    label: 'English / Singlish',
+    speechLang: 'en-SG',
+    code: 'en',
+    prompt: 'Singapore English, including Singlish. Keep discourse particles and expressions (lah, leh, lor, meh, sia, "can or not") as spoken, and write any Mandarin, Malay, Hokkien or Tamil words the way they are said rather than translating them.',
+  },
+  { id: 'en-US', label: 'English (US)', speechLang: 'en-US', code: 'en', prompt: 'English.' },
+  { id: 'zh', label: '中文', speechLang: 'zh-CN', code: 'zh', prompt: 'Mandarin Chinese. Write it in Simplified Chinese characters.' },
+  { id: 'ms', label: 'Melayu', speechLang: 'ms-MY', code: 'ms', prompt: 'Malay.' },
+  { id: 'ta', label: 'தமிழ்', speechLang: 'ta-SG', code: 'ta', prompt: 'Tamil. Write it in Tamil script.' },
+  {
+    id: 'en-zh',
+    label: 'English + 中文',
+    speechLang: 'en-SG',
+    prompt: 'A mix of English and Mandarin Chinese, often switching mid-sentence. Write English words in English and Mandarin words in Simplified Chinese characters; never translate one into the other.',
+  },
+  {
+    id: 'en-ms',
+    label: 'English + Melayu',
+    speechLang: 'en-SG',
+    prompt: 'A mix of English and Malay, often switching mid-sentence. Write every word in the language it was spoken; never translate one into the other.',
+  },
+];
+
+export const isInputLanguage = (id: unknown): id is string =>
+  typeof id === 'string' && INPUT_LANGUAGES.some(l => l.id === id);
+
+export const getInputLanguage = (id?: string): InputLanguage =>
+  INPUT_LANGUAGES.find(l => l.id === id) || INPUT_LANGUAGES[0];
+
+// Languages a detector reported ("en", "zh", "english") as display names
+export function describeLanguages(codes: string[]): string {
+  let names: Intl.DisplayNames | null = null;
+  try {
+    names = new Intl.DisplayNames(['en'], { type: 'language' });
+  } catch {
+    // Older browsers: show the codes as they are
+  }
+  return codes.map(code => {
+    try {
+      return names?.of(code) || code;
+    } catch {
+      return code;
+    }
+  }).join(', ');
+}
@@ -0,0 +1,205 @@
+// Checks of an output against its source transcript. The server runs these
+// alongside the model's verification pass (api/verify.ts); the browser uses
+// the ranges helper to highlight what was flagged.
+//
+// Only English words are read here: names, dates and numbers in other
+// languages are left to the model.
+
+import type { VerificationIssue } from '../types';
+
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Capitalized words that are layout or greetings rather than names
+const NOT_NAMES = new Set([
+  'i', "i'm", "i'll", "i've", "i'd", 'speaker', 'mr', 'mrs', 'ms', 'dr', 'hi', 'hello', 'dear', 'best', 'regards',
+  'thanks', 'cheers', 'team', 'subject', 'owner', 'due', 'unassigned', 'ok', 'okay',
+]);
+
+// ============================================
+// NUMBERS
+// ============================================
+
+const UNITS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve',
+  'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const IRREGULAR_ORDINALS: Record<string, number> = { first: 1, second: 2, third: 3, fifth: 5, eighth: 8, ninth: 9, twelfth: 12 };
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000, million: 1_000_000 };
+
+const NUMBER_WORDS: Record<string, number> = { ...IRREGULAR_ORDINALS };
+UNITS.forEach((word, value) => {
+  NUMBER_WORDS[word] = value;
+  if (!Object.values(IRREGULAR_ORDINALS).includes(value) && value > 0) NUMBER_WORDS[`${word}th`] = value;
+});
+TENS.forEach((word, i) => {
+  if (!word) return;
+  NUMBER_WORDS[word] = i * 10;
+  NUMBER_WORDS[`${word.slice(0, -1)}ieth`] = i * 10;
+});
+
+// "3,000" → "3000", "2.50" → "2.5"
+const normalizeNumber = (value: string) => String(Number(value.replace(/,/g, '')));
+
+// Every number the transcript states, in digits or in words ("twenty-five", "one hundred and five")
+function numbersIn(text: string): Set<string> {
+  const numbers = new Set<string>();
+  for (const match of text.matchAll(/\d+(?:[,.]\d+)*/g)) numbers.add(normalizeNumber(match[0]));
+  // Times and scores ("10:30", "5-2") count their parts separately
+  for (const match of text.matchAll(/\d+/g)) numbers.add(normalizeNumber(match[0]));
+
+  const words = text.toLowerCase().split(/[^a-z]+/);
+  let total = 0;
+  let current = 0;
+  let inNumber = false;
+  const flush = () => {
+    if (inNumber) numbers.add(String(total + current));
+    total = current = 0;
+    inNumber = false;
+  };
+  for (const word of words) {
+    if (word in NUMBER_WORDS) {
+      current += NUMBER_WORDS[word];
+      numbers.add(String(NUMBER_WORDS[word]));
+      inNumber = true;
+    } else if (word in SCALES && inNumber) {
+      if (SCALES[word] === 100) current *= 100;
+      else {
+        total += current * SCALES[word];
+        current = 0;
+      }
+    } else if (!(word === 'and' && inNumber)) {
+      flush();
+    }
+  }
+  flush();
+  return numbers;
+}
+
+// ============================================
+// CHECKS
+// ============================================
+
+const DAY = '\\d{1,2}(?:st|nd|rd|th)?';
+const MONTH = `(?:${MONTHS.map(m => `${m[0].toUpperCase()}${m.slice(1, 3)}(?:${m.slice(3)})?\\.?`).join('|')})`;
+const DATE_PATTERN = new RegExp(
+  `\\b(?:${MONTH}\\s+${DAY}(?:,?\\s+\\d{4})?|${DAY}\\s+(?:of\\s+)?${MONTH}(?:,?\\s+\\d{4})?|\\d{4}-\\d{2}-\\d{2}|\\d{1,2}/\\d{1,2}(?:/\\d{2,4})?)\\b`,
+  'g'
+);
+const WEEKDAY_PATTERN = new RegExp(`\\b(?:${WEEKDAYS.map(d => d[0].toUpperCase() + d.slice(1)).join('|')})\\b`, 'g');
+const NUMBER_PATTERN = /\d+(?:[,.:]\d+)*(?:st|nd|rd|th|%)?/g;
+const NAME_PATTERN = /\p{Lu}[\p{L}'’-]*(?: \p{Lu}[\p{L}'’-]*)*/gu;
+
+// Subject lines, markdown headings and Title Case lines capitalize every word,
+// so their capitals say nothing about names
+const isHeading = (line: string) => {
+  const text = line.replace(/[*_`]/g, '').trim();
+  if (/^(#|subject:)/i.test(text)) return true;
+  const words = text.match(/\p{L}[\p{L}'’-]*/gu) || [];
+  return !/[.!?]$/.test(text) && words.length > 1 && words.every(w => w.length < 4 || /^\p{Lu}/u.test(w));
+};
+
+const wordsOf = (text: string) =>
+  new Set(text.toLowerCase().replace(/['’]s\b/g, '').split(/[^\p{L}\p{N}'’-]+/u).filter(Boolean));
+
+// Names, dates and numbers in `output` that `transcript` never mentions
+export function findUnsupportedClaims(transcript: string, output: string): VerificationIssue[] {
+  const numbers = numbersIn(transcript);
+  const words = wordsOf(transcript);
+  const issues: VerificationIssue[] = [];
+  // Characters already covered by a date, so its day isn't flagged again as a number
+  const covered: [number, number][] = [];
+  const isCovered = (index: number) => covered.some(([start, end]) => index >= start && index < end);
+  const hasNumber = (value: string) => value.split(/[:\-/]/).every(part => numbers.has(normalizeNumber(part)));
+  const hasMonth = (name: string) => {
+    const month = MONTHS.find(m => m.startsWith(name.toLowerCase().replace('.', '')));
+    return !!month && words.has(month);
+  };
+
+  for (const match of output.matchAll(DATE_PATTERN)) {
+    const date = match[0];
+    covered.push([match.index!, match.index! + date.length]);
+    const month = date.match(/\p{L}{3,}\.?/u)?.[0];
+    const parts = date.replace(/(st|nd|rd|th)\b/g, '').match(/\d+/g) || [];
+    const iso = /^\d{4}-/.test(date);
+    const supported = parts.every((part, i) => {
+      // Numeric months may have been spoken as names ("2024-03-15" from "March 15")
+      const mayBeMonth = iso ? i === 1 : !month;
+      return numbers.has(normalizeNumber(part)) || (mayBeMonth && words.has(MONTHS[Number(part) - 1] || ''));
+    }) && (!month || hasMonth(month));
+    if (!supported) issues.push({ text: date, kind: 'date', reason: 'This date is not in the transcript.' });
+  }
+
+  for (const match of output.matchAll(WEEKDAY_PATTERN)) {
+    covered.push([match.index!, match.index! + match[0].length]);
+    if (!words.has(match[0].toLowerCase())) {
+      issues.push({ text: match[0], kind: 'date', reason: 'The transcript never names this day.' });
+    }
+  }
+
+  for (const match of output.matchAll(NUMBER_PATTERN)) {
+    if (isCovered(match.index!)) continue;
+    // List numbering ("1. ", "2) ") at the start of a line
+    const before = output.slice(0, match.index!);
+    if (/(^|\n)\s*$/.test(before) && /^\d+[.)]\s/.test(output.slice(match.index!))) continue;
+    if (!hasNumber(match[0].replace(/(st|nd|rd|th|%)$/, ''))) {
+      issues.push({ text: match[0], kind: 'number', reason: 'This number is not in the transcript.' });
+    }
+  }
+
+  for (const match of output.matchAll(NAME_PATTERN)) {
+    // "Label:" words are layout, and the first word of a line or sentence is capitalized anyway
+    if (output[match.index! + match[0].length] === ':') continue;
+    const before = output.slice(0, match.index!);
+    const lineEnd = output.indexOf('\n', match.index!);
+    if (isHeading(output.slice(before.lastIndexOf('\n') + 1, lineEnd < 0 ? undefined : lineEnd))) continue;
+    const tokens = match[0].split(' ').map(t => t.replace(/['’]s$/, ''));
+    if (/(^|\n)[\s\-•*\d.)]*$|[.!?:]\s*$/.test(before)) tokens.shift();
+    const named = tokens.filter(t => t.length > 1 && t !== t.toUpperCase() && !NOT_NAMES.has(t.toLowerCase())
+      && !MONTHS.includes(t.toLowerCase()) && !WEEKDAYS.includes(t.toLowerCase()));
+    const missing = named.filter(t => !words.has(t.toLowerCase()));
+    if (missing.length > 0) {
+      issues.push({ text: match[0], kind: 'name', reason: `The transcript never mentions ${missing.join(' ')}.` });
+    }
+  }
+
+  return mergeIssues(issues);
+}
+
+// Whether `outer` contains `inner` as whole words ("7 votes" contains "7"; "17" doesn't)
+const containsWords = (outer: string, inner: string) =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${inner.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^\\p{L}\\p{N}])`, 'iu').test(outer);
+
+// One issue per quoted span: later issues repeating or overlapping an earlier one are dropped
+export function mergeIssues(...lists: VerificationIssue[][]): VerificationIssue[] {
+  const merged: VerificationIssue[] = [];
+  for (const issue of lists.flat()) {
+    if (!merged.some(m => containsWords(m.text, issue.text) || containsWords(issue.text, m.text))) {
+      merged.push(issue);
+    }
+  }
+  return merged;
+}
+
+export interface IssueRange {
+  start: number;
+  end: number;
+  issue: VerificationIssue;
+}
+
+// Where each issue's quote appears in `text`, in order and without overlaps.
+// Quotes that edits have since removed simply don't appear.
+export function issueRanges(text: string, issues: VerificationIssue[]): IssueRange[] {
+  const ranges: IssueRange[] = [];
+  for (const issue of issues) {
+    if (!issue.text) continue;
+    for (let start = text.indexOf(issue.text); start >= 0; start = text.indexOf(issue.text, start + issue.text.length)) {
+      ranges.push({ start, end: start + issue.text.length, issue });
+    }
+  }
+  ranges.sort((a, b) => a.start - b.start);
+  const kept: IssueRange[] = [];
+  for (const range of ranges) {
+    if (!kept.length || range.start >= kept[kept.length - 1].end) kept.push(range);
+  }
+  return kept;
+}
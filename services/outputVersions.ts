@@ -0,0 +1,106 @@
+// Output versions: every finished run is kept with the settings that produced
+// it, so a better earlier draft can be compared and restored after re-transforms.
+
+import type { OutputSettings, OutputVersion, StructuredOutput } from '../types';
+
+// Oldest versions of a tab are dropped beyond this
+const MAX_VERSIONS_PER_FORMAT = 20;
+// Word-by-word comparison is quadratic; larger changes are shown as one block
+const MAX_DIFF_CELLS = 4_000_000;
+
+export const createVersion = (
+  format: string,
+  text: string,
+  settings: OutputSettings,
+  structured?: StructuredOutput,
+  edited?: boolean
+): OutputVersion => ({
+  id: `version-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  createdAt: Date.now(),
+  format,
+  text,
+  structured,
+  settings,
+  edited: edited || undefined,
+});
+
+export const versionsFor = (versions: OutputVersion[], format: string) =>
+  versions.filter(v => v.format === format);
+
+// Append a version unless it repeats the tab's latest one
+export function addVersion(versions: OutputVersion[], version: OutputVersion): OutputVersion[] {
+  const existing = versionsFor(versions, version.format);
+  if (existing[existing.length - 1]?.text === version.text) return versions;
+
+  const dropped = new Set(existing.slice(0, Math.max(0, existing.length + 1 - MAX_VERSIONS_PER_FORMAT)).map(v => v.id));
+  return [...versions.filter(v => !dropped.has(v.id)), version];
+}
+
+// ============================================
+// DIFF
+// ============================================
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Words and the whitespace between them, so the diff rebuilds either text exactly
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+// Word-level diff from `before` to `after`
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  // Common start and end need no comparison
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  a.slice(0, start).forEach(token => push('same', token));
+  const n = endA - start;
+  const m = endB - start;
+
+  if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+    push('removed', a.slice(start, endA).join(''));
+    push('added', b.slice(start, endB).join(''));
+  } else {
+    // lcs[i * (m + 1) + j]: longest common subsequence of the middles from i and j on
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && a[start + i] === b[start + j]) {
+        push('same', a[start + i++]);
+        j++;
+      } else if (i < n && (j === m || lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])) {
+        push('removed', a[start + i++]);
+      } else {
+        push('added', b[start + j++]);
+      }
+    }
+  }
+
+  a.slice(endA).forEach(token => push('same', token));
+  return parts.filter(p => p.text);
+}
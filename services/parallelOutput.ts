@@ -0,0 +1,53 @@
+// Side-by-side outputs. The finished output of a tab is translated into each
+// extra language, block for block, so the columns line up section by section
+// and can be exported together as one bilingual document.
+
+import { OutputFormat, PromptTemplate } from '../types';
+import type { ExportDocument } from './documentExport';
+import { transformContentStream } from './geminiService';
+
+export interface ParallelColumn {
+  // Output language code ("en", "zh", ...) and its display name
+  language: string;
+  label: string;
+  text: string;
+}
+
+const TRANSLATION_TEMPLATE: PromptTemplate = {
+  systemPrompt: `The input is a finished document. Translate it faithfully into the requested language. Keep exactly the same layout: the same headings, bullets, numbering and line breaks, with blocks separated by blank lines in the same places and in the same order, so each block of the translation lines up with its original. Keep names, numbers, dates, times, amounts, email addresses and links exactly as written. Do not add, drop, merge, summarize or explain anything; output only the translation.`,
+  lengthRules: {},
+  exampleOutput: `SUBJECT: Launch moved to 15 March
+
+Hi team,
+
+- Sarah: marketing materials
+- John: website updates`,
+};
+
+// Translate an output into `language`, streaming it as it is written
+export async function* translateOutput(text: string, language: string, tone?: string, signal?: AbortSignal) {
+  yield* transformContentStream(text, OutputFormat.CUSTOM, { template: TRANSLATION_TEMPLATE, language, tone }, signal);
+}
+
+const splitBlocks = (text: string): string[] =>
+  text.replace(/\r\n/g, '\n').split(/\n\s*\n/).map(b => b.trim()).filter(Boolean);
+
+// Rows of matching blocks, one cell per column. A column with fewer blocks
+// than the others gets empty cells at the end.
+export function alignSections(texts: string[]): string[][] {
+  const columns = texts.map(splitBlocks);
+  const length = Math.max(0, ...columns.map(c => c.length));
+  return Array.from({ length }, (_, row) => columns.map(blocks => blocks[row] || ''));
+}
+
+// One table: a column per language, a row per aligned block
+export function parallelToDocument(columns: ParallelColumn[], title: string): ExportDocument {
+  return {
+    title,
+    meta: [['Languages', columns.map(c => c.label).join(' / ')]],
+    sections: [{
+      heading: '',
+      blocks: [{ type: 'table', headers: columns.map(c => c.label), rows: alignSections(columns.map(c => c.text)) }],
+    }],
+  };
+}
@@ -0,0 +1,60 @@
+// AI edits of a selected span of the output. The model sees the selection
+// marked inside the text around it and returns only its replacement, which
+// the editor splices back in.
+
+import { OutputFormat, PromptTemplate, TransformOptions } from '../types';
+import { transformContentStream } from './geminiService';
+
+export type RewriteAction = 'rewrite' | 'shorten' | 'expand' | 'tone' | 'translate';
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Text either side of the selection sent along as context
+const CONTEXT_CHARS = 1500;
+const SELECTION_START = '<<<';
+const SELECTION_END = '>>>';
+
+const ACTION_INSTRUCTIONS: Record<RewriteAction, string> = {
+  rewrite: 'Rewrite the marked span so it reads more clearly and naturally, keeping its meaning and roughly its length.',
+  shorten: 'Make the marked span shorter and tighter, keeping every fact, name, number and date it contains.',
+  expand: 'Expand the marked span with more detail and explanation, using only what the rest of the document says; do not invent facts.',
+  tone: 'Rewrite the marked span in the requested tone, keeping its meaning, facts and layout.',
+  translate: 'Translate the marked span into the requested language, keeping names, numbers, dates and layout unchanged.',
+};
+
+const rewriteTemplate = (action: RewriteAction): PromptTemplate => ({
+  systemPrompt: `The input is a document with one span marked between ${SELECTION_START} and ${SELECTION_END}. ${ACTION_INSTRUCTIONS[action]} Use the surrounding text only as context so the result fits where the span was. Reply with only the replacement for the marked span: no markers, quotes, surrounding text or comments. Keep line breaks and bullets where the span has them.`,
+  lengthRules: {},
+  exampleOutput: '',
+});
+
+// Replacement for `range` of `text`. `options` carries the tone, output
+// language and style guide; the tone and translate actions override one of them.
+export async function rewriteSelection(
+  text: string,
+  range: TextRange,
+  action: RewriteAction,
+  options: TransformOptions,
+  signal?: AbortSignal
+): Promise<string> {
+  const selection = text.slice(range.start, range.end);
+  const input = text.slice(Math.max(0, range.start - CONTEXT_CHARS), range.start)
+    + SELECTION_START + selection + SELECTION_END
+    + text.slice(range.end, range.end + CONTEXT_CHARS);
+
+  let result = '';
+  const stream = transformContentStream(input, OutputFormat.CUSTOM, { ...options, template: rewriteTemplate(action) }, signal);
+  for await (const chunk of stream) result += chunk;
+
+  const replacement = result.trim().replace(/^<<<|>>>$/g, '').trim();
+  if (!replacement) throw new Error('The model returned nothing for this selection.');
+  // Keep the whitespace the selection started and ended with
+  const [, leading, , trailing] = selection.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return leading + replacement + trailing;
+}
+
+export const spliceText = (text: string, range: TextRange, replacement: string) =>
+  text.slice(0, range.start) + replacement + text.slice(range.end);
@@ -0,0 +1,84 @@
+// Plain-text rendering and edits for structured action items and minutes.
+// The text follows the same layouts the plain-text prompts ask for, so copy,
+// download and history behave the same in either mode.
+
+import { ActionItem, ActionItemStatus, MeetingMinutes, Motion, OutputFormat, StructuredOutput } from '../types';
+
+export const STRUCTURED_FORMATS: OutputFormat[] = [OutputFormat.ACTION_ITEMS, OutputFormat.MEETING];
+
+export const isStructuredFormat = (format: OutputFormat): format is OutputFormat.ACTION_ITEMS | OutputFormat.MEETING =>
+  STRUCTURED_FORMATS.includes(format);
+
+const STATUS_LABELS: Record<ActionItemStatus, string> = {
+  open: 'Open',
+  in_progress: 'In progress',
+  done: 'Done',
+};
+
+export const formatStatus = (status: ActionItemStatus) => STATUS_LABELS[status];
+
+export function formatVotes(votes: Motion['votes']): string {
+  const parts = [
+    votes.aye !== null ? `${votes.aye} aye` : '',
+    votes.nay !== null ? `${votes.nay} nay` : '',
+    votes.abstain !== null ? `${votes.abstain} abstain` : '',
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'Not recorded';
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export function actionItemsToText(items: ActionItem[]): string {
+  if (items.length === 0) return 'No action items found.';
+  return items
+    .map((item, i) => {
+      const done = item.status === 'done' ? ' [Done]' : item.status === 'in_progress' ? ' [In progress]' : '';
+      return `${i + 1}. ${item.task} - Owner: ${item.owner || 'Unassigned'} - Due: ${item.dueDate || 'TBD'}${done}`;
+    })
+    .join('\n');
+}
+
+export function minutesToText(minutes: MeetingMinutes): string {
+  const lines: string[] = ['MEETING NOTES'];
+  if (minutes.date) lines.push(`Date: ${minutes.date}`);
+  if (minutes.meetingType) lines.push(`Meeting Type: ${minutes.meetingType}`);
+
+  const section = (title: string, items: string[]) => {
+    lines.push('', `${title}:`);
+    lines.push(...(items.length ? items : ['None recorded']));
+  };
+
+  section('PARTICIPANTS', minutes.participants.map(p => `- ${p.name}${p.role ? ` (${p.role})` : ''}`));
+  section('AGENDA ITEMS DISCUSSED', minutes.agendaItems.map(item => `- ${item}`));
+  section('MOTIONS & VOTES', minutes.motions.flatMap((m, i) => [
+    ...(i > 0 ? [''] : []),
+    `- Motion: ${m.motion}`,
+    `- Moved by: ${m.movedBy || 'Not recorded'}`,
+    `- Seconded by: ${m.secondedBy || 'Not recorded'}`,
+    `- Vote: ${formatVotes(m.votes)}`,
+    `- Result: ${capitalize(m.result)}`,
+  ]));
+  section('KEY DECISIONS', minutes.decisions.map(d => `- ${d}`));
+  section('ACTION ITEMS', minutes.actionItems.map(a =>
+    `${a.owner || 'Unassigned'} → ${a.task} → ${a.dueDate || 'TBD'}${a.status === 'done' ? ' (Done)' : ''}`
+  ));
+  section('OPEN ITEMS / FOLLOW-UPS', minutes.openItems.map(item => `- ${item}`));
+
+  return lines.join('\n');
+}
+
+export function structuredToText(data: StructuredOutput): string {
+  return data.format === 'ACTION_ITEMS' ? actionItemsToText(data.actionItems) : minutesToText(data.minutes);
+}
+
+// Action items regardless of which structured format carries them
+export function getActionItems(data: StructuredOutput): ActionItem[] {
+  return data.format === 'ACTION_ITEMS' ? data.actionItems : data.minutes.actionItems;
+}
+
+export function setActionItemStatus(data: StructuredOutput, index: number, status: ActionItemStatus): StructuredOutput {
+  const update = (items: ActionItem[]) => items.map((item, i) => i === index ? { ...item, status } : item);
+  return data.format === 'ACTION_ITEMS'
+    ? { ...data, actionItems: update(data.actionItems) }
+    : { ...data, minutes: { ...data.minutes, actionItems: update(data.minutes.actionItems) } };
+}
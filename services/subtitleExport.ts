@@ -0,0 +1,134 @@
+// Subtitle (SRT, WebVTT) and timestamped transcript export from timed segments:
+// diarized utterances, realtime recording results or video captions.
+// Segments often run longer than a readable caption, so each one is split
+// into cues by line length and duration; word timings inside a segment are
+// estimated from character position.
+
+import type { TranscriptSegment } from '../types';
+import { DiarizedTranscript, getSpeakerLabel } from './assemblyService';
+
+export interface SubtitleOptions {
+  // Prefix the first cue of each segment with "Speaker: " when it has a speaker
+  speakerLabels: boolean;
+  maxLineLength: number;
+  maxCueMs: number;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+  speakerLabels: true,
+  maxLineLength: 42,
+  maxCueMs: 6000,
+};
+
+// Two lines per cue is the usual broadcast limit
+const MAX_LINES = 2;
+
+// ============================================
+// CUES
+// ============================================
+
+// Utterances as segments, labelled with the speakers' display names
+export const diarizedSegments = (transcript: DiarizedTranscript): TranscriptSegment[] =>
+  transcript.utterances.map(u => ({ start: u.start, end: u.end, text: u.text, speaker: getSpeakerLabel(transcript, u.speaker) }));
+
+// Greedy word wrap; a single word longer than the limit keeps its own line
+export function wrapLines(text: string, maxLength: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+export function buildCues(segments: TranscriptSegment[], options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS): SubtitleCue[] {
+  const maxChars = options.maxLineLength * MAX_LINES;
+  const cues: SubtitleCue[] = [];
+
+  for (const u of segments) {
+    const words = u.text.split(/\s+/).filter(Boolean);
+    if (words.length === 0) continue;
+
+    const prefix = options.speakerLabels && u.speaker ? `${u.speaker}: ` : '';
+    const duration = Math.max(u.end - u.start, 1);
+    const totalChars = words.join(' ').length;
+    const timeAt = (chars: number) => u.start + Math.round(duration * chars / totalChars);
+
+    let group: string[] = [];
+    let groupStart = 0; // character offset of the group within the segment
+
+    const emit = (last: boolean) => {
+      const text = group.join(' ');
+      const label = groupStart === 0 ? prefix : '';
+      cues.push({
+        start: timeAt(groupStart),
+        end: last ? u.end : timeAt(groupStart + text.length),
+        lines: wrapLines(label + text, options.maxLineLength),
+      });
+      groupStart += text.length + 1;
+      group = [];
+    };
+
+    for (const word of words) {
+      const candidate = [...group, word].join(' ');
+      const label = groupStart === 0 ? prefix : '';
+      const tooLong = wrapLines(label + candidate, options.maxLineLength).length > MAX_LINES || (label + candidate).length > maxChars;
+      const tooSlow = duration * candidate.length / totalChars > options.maxCueMs;
+      if (group.length && (tooLong || tooSlow)) emit(false);
+      group.push(word);
+    }
+    emit(true);
+  }
+
+  return cues;
+}
+
+// ============================================
+// FORMATS
+// ============================================
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// 01:02:03,456 (SRT) or 01:02:03.456 (WebVTT)
+export function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const mins = Math.floor((total % 3_600_000) / 60_000);
+  const secs = Math.floor((total % 60_000) / 1000);
+  return `${pad(hours)}:${pad(mins)}:${pad(secs)}${separator}${pad(total % 1000, 3)}`;
+}
+
+export function cuesToSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.lines.join('\n')}`)
+    .join('\n\n') + '\n';
+}
+
+// "-->" is not allowed inside WebVTT cue text
+const escapeVtt = (line: string) => line.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/-->/g, '--&gt;');
+
+export function cuesToWebVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(cue => `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${cue.lines.map(escapeVtt).join('\n')}`)
+    .join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
+
+// "[00:01:05] Speaker A: text", one segment per paragraph
+export function toTimestampedTranscript(segments: TranscriptSegment[]): string {
+  return segments
+    .map(s => `[${formatCueTime(s.start, '.').slice(0, 8)}] ${s.speaker ? `${s.speaker}: ` : ''}${s.text}`)
+    .join('\n\n') + '\n';
+}
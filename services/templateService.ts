@@ -0,0 +1,128 @@
+// Output templates: the built-in defaults (editable, with reset) plus
+// user-created ones, kept in localStorage and shareable as JSON files.
+
+import { OutputFormat, OutputTemplate, SummaryLength } from '../types';
+import { BUILT_IN_TEMPLATES, getBuiltInTemplate } from './builtInTemplates';
+
+const STORAGE_KEY = 'kyra_templates';
+const EXPORT_VERSION = 1;
+
+export const isBuiltInTemplate = (id: string) => !!getBuiltInTemplate(id);
+
+// Format sent to the server: built-ins are their own format, the rest are CUSTOM
+export const templateFormat = (id: string): OutputFormat =>
+  isBuiltInTemplate(id) ? id as OutputFormat : OutputFormat.CUSTOM;
+
+const pickPrompt = ({ name, systemPrompt, lengthRules, exampleOutput }: OutputTemplate) =>
+  ({ name, systemPrompt, lengthRules, exampleOutput });
+
+export const isTemplateEdited = (template: OutputTemplate) => {
+  const original = getBuiltInTemplate(template.id);
+  if (!original) return false;
+  const lengths = Object.values(SummaryLength);
+  return original.name !== template.name
+    || original.systemPrompt !== template.systemPrompt
+    || original.exampleOutput !== template.exampleOutput
+    || lengths.some(length => (original.lengthRules[length] || '') !== (template.lengthRules[length] || ''));
+};
+
+const createTemplateId = () => `tpl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// ============================================
+// STORAGE
+// ============================================
+
+// Built-ins first (with any saved edits), then user templates in creation order
+export function loadTemplates(): OutputTemplate[] {
+  let saved: OutputTemplate[] = [];
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch {
+    // Corrupt storage: fall back to the defaults
+  }
+  const byId = new Map(saved.map(t => [t.id, t]));
+  return [
+    ...BUILT_IN_TEMPLATES.map(t => byId.get(t.id) || t),
+    ...saved.filter(t => !isBuiltInTemplate(t.id)),
+  ];
+}
+
+// Unedited built-ins are not stored, so later changes to the defaults reach them
+export function saveTemplates(templates: OutputTemplate[]) {
+  const changed = templates.filter(t => !isBuiltInTemplate(t.id) || isTemplateEdited(t));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(changed));
+}
+
+// ============================================
+// EDITING
+// ============================================
+
+export function createTemplate(): OutputTemplate {
+  return {
+    id: createTemplateId(),
+    name: 'New template',
+    systemPrompt: '',
+    lengthRules: {},
+    exampleOutput: '',
+    updatedAt: Date.now(),
+  };
+}
+
+export function duplicateTemplate(template: OutputTemplate): OutputTemplate {
+  return {
+    ...template,
+    lengthRules: { ...template.lengthRules },
+    id: createTemplateId(),
+    name: `${template.name} copy`,
+    updatedAt: Date.now(),
+  };
+}
+
+export function resetTemplate(id: string): OutputTemplate | undefined {
+  return getBuiltInTemplate(id);
+}
+
+// ============================================
+// IMPORT / EXPORT
+// ============================================
+
+export function templatesToJson(templates: OutputTemplate[]): string {
+  return JSON.stringify({ version: EXPORT_VERSION, templates: templates.map(t => ({ id: t.id, ...pickPrompt(t) })) }, null, 2);
+}
+
+// Accepts an export file, a bare array, or a single template. Built-in ids
+// replace that built-in's prompt; anything else becomes a user template.
+export function parseTemplatesJson(json: string): OutputTemplate[] {
+  let data: any;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Template file is not valid JSON.');
+  }
+
+  const list: any[] = Array.isArray(data) ? data : Array.isArray(data?.templates) ? data.templates : [data];
+  const lengths = Object.values(SummaryLength) as string[];
+
+  return list.map((item, i) => {
+    if (typeof item?.name !== 'string' || !item.name.trim() || typeof item?.systemPrompt !== 'string' || !item.systemPrompt.trim()) {
+      throw new Error(`Template ${i + 1} needs a name and a system prompt.`);
+    }
+    const lengthRules = Object.fromEntries(
+      Object.entries(item.lengthRules || {}).filter(([key, value]) => lengths.includes(key) && typeof value === 'string')
+    );
+    return {
+      id: typeof item.id === 'string' && isBuiltInTemplate(item.id) ? item.id : createTemplateId(),
+      name: item.name.trim(),
+      systemPrompt: item.systemPrompt,
+      lengthRules,
+      exampleOutput: typeof item.exampleOutput === 'string' ? item.exampleOutput : '',
+      updatedAt: Date.now(),
+    };
+  });
+}
+
+// Imported templates replace built-ins with the same id and are appended otherwise
+export function mergeTemplates(current: OutputTemplate[], imported: OutputTemplate[]): OutputTemplate[] {
+  const next = current.map(t => imported.find(i => i.id === t.id) || t);
+  return [...next, ...imported.filter(i => !current.some(t => t.id === i.id))];
+}
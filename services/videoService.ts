@@ -0,0 +1,40 @@
+// Video Service
+// Calls /api/video-transcript and lays the result out for the input panel
+
+import type { VideoTranscript } from '../types';
+import { formatCueTime } from './subtitleExport';
+
+// Caption cues are a few words each; group them into readable paragraphs
+const PARAGRAPH_MS = 30_000;
+const PARAGRAPH_CHARS = 500;
+
+export async function fetchVideoTranscript(url: string): Promise<VideoTranscript> {
+  const response = await fetch('/api/video-transcript', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Could not get a transcript for this video');
+  }
+  return response.json();
+}
+
+// Timed captions become "[HH:MM:SS] paragraph" blocks; audio transcripts are used as-is
+export function formatVideoTranscript(transcript: VideoTranscript): string {
+  const segments = transcript.segments || [];
+  if (!segments.length) return transcript.text.trim();
+
+  const paragraphs: { start: number; text: string }[] = [];
+  for (const segment of segments) {
+    const current = paragraphs[paragraphs.length - 1];
+    if (current && segment.start - current.start < PARAGRAPH_MS && current.text.length < PARAGRAPH_CHARS) {
+      current.text += ` ${segment.text}`;
+    } else {
+      paragraphs.push({ start: segment.start, text: segment.text });
+    }
+  }
+  return paragraphs.map(p => `[${formatCueTime(p.start, '.').slice(0, 8)}] ${p.text}`).join('\n\n');
+}
@@ -0,0 +1,83 @@
+// Voice profiles: named style guides kept in localStorage, one active at a time.
+// The active profile's style guide rides along with every transform request.
+
+import { OutputFormat, PromptTemplate, VoiceProfile } from '../types';
+import { transformContentStream } from './geminiService';
+
+const PROFILES_KEY = 'kyra_voice_profiles';
+const ACTIVE_KEY = 'kyra_voice_profile_active';
+// Single style guide saved by earlier versions
+const LEGACY_KEY = 'kyra_style_guide';
+
+export const createVoiceProfile = (name = 'New profile', styleGuide = ''): VoiceProfile => ({
+  id: `voice-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  styleGuide,
+  updatedAt: Date.now(),
+});
+
+// ============================================
+// STORAGE
+// ============================================
+
+// Storage is editable by hand and by older versions, so keep only whole profiles
+const isVoiceProfile = (value: any): value is VoiceProfile =>
+  typeof value?.id === 'string' && typeof value.name === 'string' && typeof value.styleGuide === 'string'
+  && (value.updatedAt === undefined || typeof value.updatedAt === 'number');
+
+export function loadVoiceProfiles(): VoiceProfile[] {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) return parsed.filter(isVoiceProfile);
+    }
+  } catch {
+    // Corrupt storage: start over, keeping the legacy guide below if any
+  }
+
+  // First launch after the upgrade: the old single guide becomes a profile
+  const legacy = localStorage.getItem(LEGACY_KEY);
+  if (!legacy?.trim()) return [];
+  const profile = createVoiceProfile('My voice', legacy);
+  saveVoiceProfiles([profile]);
+  saveActiveProfileId(profile.id);
+  localStorage.removeItem(LEGACY_KEY);
+  return [profile];
+}
+
+export function saveVoiceProfiles(profiles: VoiceProfile[]) {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+}
+
+export const loadActiveProfileId = (): string | null => localStorage.getItem(ACTIVE_KEY);
+
+export function saveActiveProfileId(id: string | null) {
+  if (id) {
+    localStorage.setItem(ACTIVE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_KEY);
+  }
+}
+
+// ============================================
+// LEARN FROM SAMPLES
+// ============================================
+
+const STYLE_LEARNING_TEMPLATE: PromptTemplate = {
+  systemPrompt: `The input is a set of writing samples by one person, separated by lines of "---". Study how they write and produce a style guide another writer could follow to sound like them. Cover: tone and formality, sentence length and rhythm, vocabulary and favourite phrases, greetings and sign-offs, punctuation and emoji habits, formatting habits, and anything they consistently avoid. Write it as a short list of direct instructions ("Use...", "Avoid...", "Open with..."), each on its own line starting with "- ". Describe the style only; do not repeat or summarize the content of the samples.`,
+  lengthRules: {},
+  exampleOutput: `- Keep sentences short and direct; one idea per sentence.
+- Open emails with "Hi <name>," and sign off with "Cheers".
+- Use contractions (we're, it's) and avoid corporate jargon.`,
+};
+
+// Samples are separated by a "---" line or by two blank lines
+export const splitSamples = (text: string): string[] =>
+  text.split(/\n\s*-{3,}\s*\n|\n\s*\n\s*\n/).map(s => s.trim()).filter(Boolean);
+
+// Draft a style guide from writing samples, streaming it as it is written
+export async function* learnStyleGuide(samples: string[], signal?: AbortSignal) {
+  const input = samples.join('\n\n---\n\n');
+  yield* transformContentStream(input, OutputFormat.CUSTOM, { template: STYLE_LEARNING_TEMPLATE }, signal);
+}
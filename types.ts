@@ -1,8 +1,8 @@
-
 export enum InputMode {
   RECORD = 'RECORD',
   UPLOAD = 'UPLOAD',
-  PASTE = 'PASTE'
+  PASTE = 'PASTE',
+  URL = 'URL'
 }
 
 export enum OutputFormat {
@@ -23,9 +23,28 @@ export enum SummaryLength {
 export interface AppSession {
   id: string;
   timestamp: number;
+  updatedAt?: number;
+  tool?: string;
   transcript: string;
   output?: string;
-  format?: OutputFormat;
+  // Template id of the active tab; built-in templates use their OutputFormat
+  format?: string;
+  // Every format generated for this transcript (batch generation), by template id
+  outputs?: Record<string, string>;
+  structured?: Record<string, StructuredOutput>;
+  // Side-by-side translations of `outputs`, by template id then language code
+  translations?: Record<string, Record<string, string>>;
+  // Every output generated for this transcript, oldest first (see services/outputVersions.ts)
+  versions?: OutputVersion[];
+  diarized?: DiarizedTranscript;
+  // Timings of recorded or captioned transcripts, for subtitle export
+  segments?: TranscriptSegment[];
+  // Original audio is stored separately (see historyService); this marks it exists
+  audioMimeType?: string;
+  // Spoken-language setting used for the input (see services/inputLanguages.ts)
+  inputLanguage?: string;
+  // Languages detected in the input, main one first ("en", "zh", ...)
+  languages?: string[];
 }
 
 export enum RecordingState {
@@ -35,3 +54,187 @@ export enum RecordingState {
   COMPLETE = 'COMPLETE',
   ERROR = 'ERROR'
 }
+
+export interface TransformOptions {
+  summaryLength?: string;
+  customPrompt?: string;
+  tone?: string;
+  language?: string;
+  styleGuide?: string;
+  // Transcript lines carry speaker labels from diarization
+  diarized?: boolean;
+  // Prompt for the format; the server falls back to the built-in one when absent
+  template?: PromptTemplate;
+  // Output from an interrupted run; the model picks up where it stops
+  continueFrom?: string;
+}
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+export interface PromptTemplate {
+  systemPrompt: string;
+  // Extra instruction for each SummaryLength; formats without length options leave it empty
+  lengthRules: Partial<Record<SummaryLength, string>>;
+  // Sample of the expected layout, shown to the model as a guide
+  exampleOutput: string;
+}
+
+export interface OutputTemplate extends PromptTemplate {
+  // Built-in templates use their OutputFormat as id
+  id: string;
+  name: string;
+  updatedAt?: number;
+}
+
+// ============================================
+// OUTPUT VERSIONS
+// ============================================
+
+// Settings an output was generated with
+export interface OutputSettings {
+  tone?: string;
+  summaryLength?: string;
+  language?: string;
+  styleGuide?: string;
+  // Name of the voice profile the style guide came from
+  voiceProfile?: string;
+}
+
+export interface OutputVersion {
+  id: string;
+  createdAt: number;
+  // Template id of the tab it was generated for
+  format: string;
+  text: string;
+  structured?: StructuredOutput;
+  settings: OutputSettings;
+  // Saved from hand edits before another version replaced them
+  edited?: boolean;
+}
+
+// ============================================
+// STRUCTURED OUTPUT
+// ============================================
+
+export type ActionItemStatus = 'open' | 'in_progress' | 'done';
+
+export interface ActionItem {
+  task: string;
+  owner: string | null;
+  // ISO date (YYYY-MM-DD) when the transcript gives one, else the phrase used ("next Tuesday")
+  dueDate: string | null;
+  status: ActionItemStatus;
+}
+
+export type MotionResult = 'passed' | 'failed' | 'tabled' | 'unknown';
+
+export interface Motion {
+  motion: string;
+  movedBy: string | null;
+  secondedBy: string | null;
+  votes: { aye: number | null; nay: number | null; abstain: number | null };
+  result: MotionResult;
+}
+
+export interface MeetingMinutes {
+  date: string | null;
+  meetingType: string | null;
+  participants: { name: string; role: string | null }[];
+  agendaItems: string[];
+  motions: Motion[];
+  decisions: string[];
+  actionItems: ActionItem[];
+  openItems: string[];
+}
+
+export type StructuredOutput =
+  | { format: 'ACTION_ITEMS'; actionItems: ActionItem[] }
+  | { format: 'MEETING'; minutes: MeetingMinutes };
+
+// ============================================
+// VOICE PROFILES
+// ============================================
+
+export interface VoiceProfile {
+  id: string;
+  name: string;
+  // Writing-style rules appended to every prompt while the profile is active
+  styleGuide: string;
+  updatedAt?: number;
+}
+
+// ============================================
+// VERIFICATION
+// ============================================
+
+export type VerificationKind = 'name' | 'date' | 'number' | 'commitment';
+
+// A claim in an output that the transcript doesn't back up
+export interface VerificationIssue {
+  // Quoted exactly from the output, so it can be found and highlighted
+  text: string;
+  kind: VerificationKind;
+  reason: string;
+}
+
+// ============================================
+// TRANSCRIPTION
+// ============================================
+
+export interface TranscriptionResult {
+  text: string;
+  // Languages heard, main one first, when the model reports them
+  languages?: string[];
+}
+
+// A timed stretch of transcript: a caption cue, a realtime result or a diarized utterance
+export interface TranscriptSegment {
+  start: number; // ms
+  end: number;   // ms
+  text: string;
+  // Who is speaking, as displayed, when speakers were detected
+  speaker?: string;
+}
+
+export interface DiarizedUtterance {
+  speaker: string;
+  text: string;
+  start: number;
+  end: number;
+  confidence: number;
+}
+
+export interface DiarizedTranscript {
+  text: string;
+  utterances: DiarizedUtterance[];
+  speakers: string[];
+  // Display names keyed by speaker label, e.g. { A: 'Councilman Work' }
+  speakerNames?: Record<string, string>;
+  // Language given or detected for the recording
+  languages?: string[];
+  status: 'completed' | 'error';
+  error?: string;
+}
+
+// ============================================
+// VIDEO
+// ============================================
+
+export interface VideoTranscript {
+  title?: string;
+  // Published captions, or speech-to-text on the extracted audio track
+  source: 'captions' | 'audio';
+  language?: string;
+  text: string;
+  // Caption timings; absent when the text came from the audio track
+  segments?: TranscriptSegment[];
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+// What went wrong upstream, sent by the API as `code` next to `error` (api/_lib/errors.ts)
+export type ErrorCode = 'rate_limit' | 'quota' | 'auth' | 'safety' | 'network' | 'unavailable' | 'truncated';
@@ -1,19 +1,21 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { apiDevServer } from './api/_lib/devServer';
 
 export default defineConfig(({ mode }) => {
+    // Server-only secrets (GEMINI_API_KEY, ...) are exposed to the /api
+    // handlers through process.env and are never inlined into the bundle
     const env = loadEnv(mode, '.', '');
+    for (const [key, value] of Object.entries(env)) {
+      process.env[key] ??= value;
+    }
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
+      plugins: [react(), apiDevServer()],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),